@@ -1,16 +1,67 @@
 import "./App.css";
-import { useCandidateContext } from "@/hooks";
-import { CandidateLoginPage, JobsPage } from "@/pages";
-import { SettingsBar } from "@/components";
+import { useCandidateContext, useRouter } from "@/hooks";
+import {
+  ApplicationsPage,
+  CandidateLoginPage,
+  JobDetailPage,
+  JobsPage,
+} from "@/pages";
+import { Navigate, SettingsBar } from "@/components";
+import { AuthGuard, GuestGuard } from "@/guards";
+import { DEFAULT_ROUTE, ROUTES } from "@/constants";
+import { matchRoute } from "@/utils";
+
+// Renders the page of the current route
+// Routes live in the URL hash (#/jobs/42), so they work on gh-pages
+// - /login: CandidateLoginPage, only without a session (GuestGuard)
+// - /jobs, /jobs/:id and /applications: only for an authenticated
+//   candidate (AuthGuard), who is sent to login and back otherwise
+// - Any other route redirects to the jobs list
+const renderRoute = (path: string) => {
+  if (matchRoute(ROUTES.LOGIN, path)) {
+    return (
+      <GuestGuard>
+        <CandidateLoginPage />
+      </GuestGuard>
+    );
+  }
+
+  if (matchRoute(ROUTES.JOBS, path)) {
+    return (
+      <AuthGuard>
+        <JobsPage />
+      </AuthGuard>
+    );
+  }
+
+  const jobRoute = matchRoute(ROUTES.JOB_DETAIL, path);
+  if (jobRoute) {
+    return (
+      <AuthGuard>
+        <JobDetailPage key={jobRoute.id} jobId={jobRoute.id} />
+      </AuthGuard>
+    );
+  }
+
+  if (matchRoute(ROUTES.APPLICATIONS, path)) {
+    return (
+      <AuthGuard>
+        <ApplicationsPage />
+      </AuthGuard>
+    );
+  }
+
+  return <Navigate to={DEFAULT_ROUTE} />;
+};
 
 // Main application component
-// Handles the authentication flow by showing:
+// Shows:
 // - SettingsBar always visible at the top
-// - CandidateLoginPage if there's no authenticated candidate
-// - JobsPage if the candidate is already authenticated
+// - The page of the current route (see renderRoute)
 // - Loading spinner while verifying the initial session
 function App() {
-  const { candidate, loading } = useCandidateContext();
+  const { loading } = useCandidateContext();
+  const { path } = useRouter();
 
   if (loading) {
     return (
@@ -23,7 +74,7 @@ function App() {
   return (
     <div className="App">
       <SettingsBar />
-      {!candidate ? <CandidateLoginPage /> : <JobsPage />}
+      {renderRoute(path)}
     </div>
   );
 }
@@ -0,0 +1,137 @@
+import axios, { AxiosError } from "axios";
+import type { ApiErrorKind } from "@/models";
+import {
+  API_ERROR_TRANSLATION_KEYS,
+  ERROR_CODES,
+} from "@/constants/error.constants";
+import type { TranslationKey } from "@/constants/translations.constants";
+import { isDecodeError } from "@/utils/decoder";
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  correlationId?: string;
+  cause?: unknown;
+}
+
+// Error raised by apiClient for every failed request
+// The kind discriminates the failure so pages can render a translated message
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly code?: string;
+  readonly correlationId?: string; // Matches the request in the request log
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.code = options.code;
+    this.correlationId = options.correlationId;
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError =>
+  err instanceof ApiError;
+
+// Whether the error comes from a request cancelled through an AbortSignal
+// Covers aborted API requests and the AbortError raised while waiting to retry
+// Aborted requests are not failures and must never be shown to the user
+export const isAbortError = (err: unknown): boolean =>
+  (isApiError(err) && err.kind === "aborted") ||
+  (err instanceof DOMException && err.name === "AbortError");
+
+// Validates a response body with the model decoder
+// A mismatch is raised as an "invalid-response" ApiError whose message
+// names the endpoint, to ease debugging backend contract changes
+export const decodeResponse = <T>(
+  decode: (value: unknown) => T,
+  data: unknown,
+  endpoint: string,
+): T => {
+  try {
+    return decode(data);
+  } catch (error) {
+    if (!isDecodeError(error)) {
+      throw error;
+    }
+
+    throw new ApiError("invalid-response", `${endpoint} -> ${error.message}`, {
+      cause: error,
+    });
+  }
+};
+
+// Reports an unknown or rejected email (404 or validation error) as an
+// INVALID_EMAIL ApiError; any other error is returned unchanged
+export const toInvalidEmailError = (error: unknown): unknown => {
+  if (
+    !isApiError(error) ||
+    (error.kind !== "not-found" && error.kind !== "validation")
+  ) {
+    return error;
+  }
+
+  return new ApiError("validation", ERROR_CODES.INVALID_EMAIL, {
+    status: error.status,
+    code: ERROR_CODES.INVALID_EMAIL,
+    correlationId: error.correlationId,
+    cause: error,
+  });
+};
+
+// Maps an HTTP status code to the kind of API error it represents
+const getKindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 401 || status === 403) {
+    return "unauthorized";
+  }
+
+  if (status === 404) {
+    return "not-found";
+  }
+
+  if (status === 400 || status === 409 || status === 422) {
+    return "validation";
+  }
+
+  return "server";
+};
+
+// Converts the raw AxiosError into a typed ApiError
+export const toApiError = (error: AxiosError): ApiError => {
+  const options = {
+    code: error.code,
+    correlationId: error.config?.correlationId,
+    cause: error,
+  };
+
+  if (axios.isCancel(error)) {
+    return new ApiError("aborted", error.message, options);
+  }
+
+  if (error.response) {
+    const { status } = error.response;
+    return new ApiError(getKindFromStatus(status), error.message, {
+      ...options,
+      status,
+    });
+  }
+
+  if (
+    error.code === AxiosError.ECONNABORTED ||
+    error.code === AxiosError.ETIMEDOUT
+  ) {
+    return new ApiError("timeout", error.message, options);
+  }
+
+  return new ApiError("network", error.message, options);
+};
+
+// Returns the translation key that describes the error
+// Falls back to the given key for errors that did not come from the API
+export const getErrorTranslationKey = (
+  err: unknown,
+  fallback: TranslationKey,
+): TranslationKey =>
+  isApiError(err) ? API_ERROR_TRANSLATION_KEYS[err.kind] : fallback;
@@ -1,10 +1,26 @@
 import axios, { AxiosError } from "axios";
 import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
 import { envConfig } from "@/config";
+import type { EnvConfig } from "@/config";
+import { mockAdapter, mockDb } from "./mock";
+import {
+  BeaconSink,
+  ConsoleSink,
+  MemorySink,
+  addRequestSink,
+  installInstrumentation,
+} from "./instrumentation";
+import { isApiError, toApiError } from "./api.error";
+import type { ApiError } from "./api.error";
+import {
+  createSessionRefresher,
+  installSessionInterceptor,
+  retryUnauthorized,
+} from "./session.interceptors";
 
+// The base URL, timeout and adapter come from the runtime configuration,
+// see configureApiClient
 const axiosConfig: AxiosRequestConfig = {
-  baseURL: envConfig.api.baseUrl,
-  timeout: envConfig.api.timeout,
   headers: {
     "Content-Type": "application/json",
   },
@@ -12,50 +28,71 @@ const axiosConfig: AxiosRequestConfig = {
 
 export const apiClient: AxiosInstance = axios.create(axiosConfig);
 
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem("authToken");
+const defaultAdapter = apiClient.defaults.adapter;
 
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
+// Latest requests sent through apiClient, oldest first
+// Attach requestLog.getEntries() to support tickets to trace a failure
+export const requestLog = new MemorySink(envConfig.instrumentation.bufferSize);
 
-    return config;
-  },
-  (error: AxiosError) => {
-    return Promise.reject(error);
-  },
-);
+let removeConfiguredSinks: (() => void)[] = [];
 
+// Applies the resolved runtime configuration to apiClient
+// Must run at startup, before the first request
+export const configureApiClient = (config: EnvConfig): void => {
+  apiClient.defaults.baseURL = config.api.baseUrl;
+  apiClient.defaults.timeout = config.api.timeout;
+
+  const {
+    console: logToConsole,
+    bufferSize,
+    beaconUrl,
+  } = config.instrumentation;
+  removeConfiguredSinks.forEach((remove) => remove());
+  requestLog.setCapacity(bufferSize);
+  removeConfiguredSinks = [
+    addRequestSink(requestLog),
+    ...(logToConsole ? [addRequestSink(new ConsoleSink())] : []),
+    ...(beaconUrl ? [addRequestSink(new BeaconSink(beaconUrl))] : []),
+  ];
+
+  // Serves every request from the local mock backend when enabled
+  if (config.mock.enabled) {
+    apiClient.defaults.adapter = mockAdapter;
+    mockDb.seedConfiguredCandidate(config.auth.email);
+  } else {
+    apiClient.defaults.adapter = defaultAdapter;
+  }
+};
+
+// Silent token refresh shared by the interceptors and the session timer
+export const refreshSession = createSessionRefresher(apiClient);
+
+installSessionInterceptor(apiClient, refreshSession);
+installInstrumentation(apiClient);
+
+// Converts every failed response into a typed ApiError
+// so pages can render a translated message based on its kind
+// A 401 is retried once after refreshing the token, and ends the session
+// if the token can't be refreshed
 apiClient.interceptors.response.use(
   (response: AxiosResponse) => response,
-  (error: AxiosError) => {
-    if (error.response) {
-      const status = error.response.status;
-
-      switch (status) {
-        case 401:
-          console.error("Unauthorized - Redirecting to login");
-          localStorage.removeItem("authToken");
-          break;
-        case 403:
-          console.error("Forbidden - Access denied");
-          break;
-        case 404:
-          console.error("Not Found");
-          break;
-        case 500:
-          console.error("Server Error");
-          break;
-        default:
-          console.error("Error:", status);
-      }
-    } else if (error.request) {
-      console.error("No response from server");
-    } else {
-      console.error("Request error:", error.message);
+  (error: AxiosError | ApiError) => {
+    // Already typed (e.g. thrown by a request interceptor)
+    if (isApiError(error)) {
+      return Promise.reject(error);
+    }
+
+    const apiError = toApiError(error);
+
+    if (apiError.status === 401 && error.config) {
+      return retryUnauthorized(
+        apiClient,
+        refreshSession,
+        error.config,
+        apiError,
+      );
     }
 
-    return Promise.reject(error);
+    return Promise.reject(apiError);
   },
 );
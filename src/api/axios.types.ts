@@ -0,0 +1,12 @@
+// Custom request options understood by the apiClient interceptors
+declare module "axios" {
+  interface AxiosRequestConfig {
+    skipAuth?: boolean; // Sends the request without the session token (token endpoints)
+    authRetried?: boolean; // Set when a request is replayed after refreshing the token
+    correlationId?: string; // Groups every attempt of a request in the request log
+    attempt?: number; // 1-based attempt number, set by callers that retry
+    startedAt?: number; // Set by the instrumentation when the request is sent
+  }
+}
+
+export {};
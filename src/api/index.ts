@@ -1 +1,3 @@
 export * from "./axios.config";
+export * from "./api.error";
+export * from "./session.store";
@@ -0,0 +1,3 @@
+export * from "./instrumentation.types";
+export * from "./instrumentation.sinks";
+export * from "./instrumentation.interceptors";
@@ -0,0 +1,84 @@
+import { AxiosError } from "axios";
+import type {
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { CORRELATION_HEADER } from "@/constants";
+import { generateUuid } from "@/utils";
+import { toApiError } from "../api.error";
+import type {
+  RequestOutcome,
+  RequestRecord,
+  RequestSink,
+} from "./instrumentation.types";
+
+const sinks = new Set<RequestSink>();
+
+// Registers a sink that receives every request record
+// Returns a function that removes (and disposes) the sink
+export const addRequestSink = (sink: RequestSink): (() => void) => {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+    sink.dispose?.();
+  };
+};
+
+const emit = (entry: RequestRecord): void => {
+  sinks.forEach((sink) => {
+    try {
+      sink.record(entry);
+    } catch {
+      // A broken sink must never break the request being recorded
+    }
+  });
+};
+
+// Builds the record of a finished request from its config
+const toRecord = (
+  config: InternalAxiosRequestConfig,
+  outcome: RequestOutcome,
+  status?: number,
+): RequestRecord => {
+  const startedAt = config.startedAt ?? Date.now();
+
+  return {
+    correlationId: config.correlationId ?? "",
+    method: (config.method ?? "get").toUpperCase(),
+    endpoint: (config.url ?? "").split("?")[0],
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    status,
+    outcome,
+    retryCount: (config.attempt ?? 1) - 1 + (config.authRetried ? 1 : 0),
+  };
+};
+
+// Records every request sent through the client
+// Stamps each request with its start time and a correlation ID (kept when
+// the caller already set one, e.g. to group retries) sent in a header so
+// the API logs can be matched with the client's
+// Must be installed before the interceptor that converts errors into ApiError
+export const installInstrumentation = (client: AxiosInstance): void => {
+  client.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+    config.correlationId ??= generateUuid();
+    config.startedAt = Date.now();
+    config.headers.set(CORRELATION_HEADER, config.correlationId);
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      emit(toRecord(response.config, "success", response.status));
+      return response;
+    },
+    (error: unknown) => {
+      if (error instanceof AxiosError && error.config) {
+        const { kind } = toApiError(error);
+        emit(toRecord(error.config, kind, error.response?.status));
+      }
+      return Promise.reject(error);
+    },
+  );
+};
@@ -0,0 +1,138 @@
+import type { RequestRecord, RequestSink } from "./instrumentation.types";
+
+type RequestLogListener = () => void;
+
+// Keeps the latest requests in memory, dropping the oldest ones once full
+// Backs the request log that can be attached to support tickets
+export class MemorySink implements RequestSink {
+  private entries: RequestRecord[] = [];
+  private listeners = new Set<RequestLogListener>();
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  record(entry: RequestRecord): void {
+    this.entries = [...this.entries, entry].slice(-this.capacity);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Gets the recorded requests, oldest first
+  getEntries(): RequestRecord[] {
+    return this.entries;
+  }
+
+  setCapacity(capacity: number): void {
+    this.capacity = capacity;
+    this.entries = this.entries.slice(-capacity);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Registers a listener called whenever a request is recorded
+  subscribe(listener: RequestLogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Logs every request to the browser console, failures as warnings
+export class ConsoleSink implements RequestSink {
+  record(entry: RequestRecord): void {
+    const retry = entry.retryCount > 0 ? ` (retry ${entry.retryCount})` : "";
+    const message = `[api] ${entry.method} ${entry.endpoint} ${entry.status ?? entry.outcome} ${entry.durationMs}ms${retry} ${entry.correlationId}`;
+
+    if (entry.outcome === "success") {
+      console.info(message);
+    } else {
+      console.warn(message, entry);
+    }
+  }
+}
+
+interface BeaconSinkOptions {
+  batchSize?: number; // Records that trigger an immediate send
+  flushIntervalMs?: number; // Maximum time a record waits to be sent
+}
+
+// Sends the records in batches to a collector URL
+// Uses navigator.sendBeacon so the last batch survives the page being closed,
+// falling back to a keepalive fetch. Delivery is best effort: a failed
+// batch is dropped
+export class BeaconSink implements RequestSink {
+  private queue: RequestRecord[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly url: string;
+  private readonly batchSize: number;
+  private readonly flushIntervalMs: number;
+
+  constructor(url: string, options: BeaconSinkOptions = {}) {
+    this.url = url;
+    this.batchSize = options.batchSize ?? 20;
+    this.flushIntervalMs = options.flushIntervalMs ?? 10_000;
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    window.addEventListener("pagehide", this.flush);
+  }
+
+  record(entry: RequestRecord): void {
+    this.queue.push(entry);
+
+    if (this.queue.length >= this.batchSize) {
+      this.flush();
+    } else {
+      this.timer ??= setTimeout(this.flush, this.flushIntervalMs);
+    }
+  }
+
+  // Sends every queued record right away
+  flush = (): void => {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const body = JSON.stringify({ requests: this.queue });
+    this.queue = [];
+
+    const queued =
+      typeof navigator.sendBeacon === "function" &&
+      navigator.sendBeacon(
+        this.url,
+        new Blob([body], { type: "application/json" }),
+      );
+
+    if (!queued) {
+      fetch(this.url, {
+        method: "POST",
+        body,
+        headers: { "Content-Type": "application/json" },
+        keepalive: true,
+      }).catch(() => undefined);
+    }
+  };
+
+  dispose(): void {
+    this.flush();
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange,
+    );
+    window.removeEventListener("pagehide", this.flush);
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === "hidden") {
+      this.flush();
+    }
+  };
+}
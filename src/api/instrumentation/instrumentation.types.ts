@@ -0,0 +1,25 @@
+import type { ApiErrorKind } from "@/models";
+
+// Outcome of a request: "success" or the kind of ApiError it failed with
+export type RequestOutcome = "success" | ApiErrorKind;
+
+// Record of a single request sent through apiClient
+// Every attempt of a retried request is recorded separately and shares
+// the correlation ID, which is also sent to the API in a header
+export interface RequestRecord {
+  correlationId: string;
+  method: string;
+  endpoint: string; // Path without the query string, which may carry personal data
+  startedAt: string; // ISO date
+  durationMs: number;
+  status?: number; // HTTP status, missing when no response was received
+  outcome: RequestOutcome;
+  retryCount: number; // 0 for the first attempt
+}
+
+// Destination of the request records
+// Sinks must not throw; errors are swallowed so they never break a request
+export interface RequestSink {
+  record(entry: RequestRecord): void;
+  dispose?(): void; // Releases timers and listeners when the sink is removed
+}
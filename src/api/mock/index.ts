@@ -0,0 +1,3 @@
+export * from "./mock.adapter";
+export { mockDb } from "./mock.db";
+export type { MockApplication } from "./mock.db";
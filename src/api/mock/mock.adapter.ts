@@ -0,0 +1,131 @@
+import { AxiosError, CanceledError } from "axios";
+import type {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { envConfig } from "@/config";
+import { findMockRoute, isAuthorized } from "./mock.routes";
+import type { MockRequest, MockResponse } from "./mock.routes";
+
+// Origin used only to parse relative request URLs
+const MOCK_ORIGIN = "http://mock.local";
+
+// Waits for the given time, rejecting with a CanceledError (like the real
+// adapters do) if the request signal is aborted first
+const wait = (
+  ms: number,
+  config: InternalAxiosRequestConfig,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", cancel);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      cancel();
+      return;
+    }
+
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+
+// Parses the axios request config into the shape expected by the routes
+const toMockRequest = (config: InternalAxiosRequestConfig): MockRequest => {
+  const url = new URL(config.url ?? "", MOCK_ORIGIN);
+
+  // Like axios, unset params are left out of the query string
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, String(value));
+    }
+  });
+
+  const body =
+    typeof config.data === "string" && config.data
+      ? JSON.parse(config.data)
+      : config.data;
+
+  const headers = Object.fromEntries(
+    Object.entries(config.headers.toJSON()).map(([key, value]) => [
+      key.toLowerCase(),
+      String(value),
+    ]),
+  );
+
+  return {
+    method: (config.method ?? "get").toLowerCase(),
+    path: url.pathname,
+    query: url.searchParams,
+    headers,
+    body,
+  };
+};
+
+// Resolves the route handler for the request, or a 404 when none matches
+// Non-public routes answer 401 without a valid bearer token
+const handleRequest = (request: MockRequest): MockResponse => {
+  const route = findMockRoute(request.method, request.path);
+
+  if (!route) {
+    return { status: 404, data: { error: `No mock for ${request.path}` } };
+  }
+
+  if (!route.public && !isAuthorized(request)) {
+    return { status: 401, data: { error: "Invalid or expired token" } };
+  }
+
+  return route.handler(request);
+};
+
+// Axios adapter that serves requests from the in-memory mock database
+// Simulates network latency, honours the request timeout and abort signal, and injects
+// random server failures according to envConfig.mock.failureRate
+export const mockAdapter: AxiosAdapter = async (config) => {
+  const { latency, failureRate } = envConfig.mock;
+
+  if (config.timeout && latency > config.timeout) {
+    await wait(config.timeout, config);
+    throw new AxiosError(
+      `timeout of ${config.timeout}ms exceeded`,
+      AxiosError.ECONNABORTED,
+      config,
+    );
+  }
+
+  await wait(latency, config);
+
+  const { status, data } =
+    Math.random() < failureRate
+      ? { status: 500, data: { error: "Simulated server failure" } }
+      : handleRequest(toMockRequest(config));
+
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  };
+
+  const validateStatus = config.validateStatus;
+
+  if (validateStatus && !validateStatus(status)) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response,
+    );
+  }
+
+  return response;
+};
@@ -0,0 +1,145 @@
+import type { Job, Candidate } from "@/models";
+import {
+  EMPLOYMENT_TYPES,
+  REMOTE_POLICIES,
+  SENIORITY_LEVELS,
+} from "@/constants/job.constants";
+
+// Seeded jobs served by the local mock backend
+// Some fields are left out on purpose, as the real backend may omit them
+export const MOCK_JOBS: Job[] = [
+  {
+    id: "4416372005",
+    title: "Fullstack developer",
+    description:
+      "Build features end to end across our React frontend and Node.js services.\nYou'll own projects from the first design review to production monitoring.",
+    location: "Buenos Aires, Argentina",
+    remotePolicy: "hybrid",
+    seniority: "mid",
+    employmentType: "full-time",
+    tags: ["React", "TypeScript", "Node.js", "PostgreSQL"],
+    salary: { min: 48000, max: 65000, currency: "USD", period: "year" },
+    postedAt: "2025-01-20T12:00:00.000Z",
+  },
+  {
+    id: "9100000001",
+    title: "Head Chef",
+    location: "Montevideo, Uruguay",
+    remotePolicy: "onsite",
+    seniority: "lead",
+    employmentType: "full-time",
+    tags: [],
+    postedAt: "2025-01-05T12:00:00.000Z",
+  },
+  {
+    id: "9100000002",
+    title: "Frontend Engineer (React)",
+    description:
+      "Join the portal team to build accessible, fast interfaces used by thousands of candidates.",
+    remotePolicy: "remote",
+    seniority: "senior",
+    employmentType: "contract",
+    tags: ["React", "TypeScript", "CSS", "Accessibility"],
+    salary: { min: 45, currency: "USD", period: "hour" },
+    postedAt: "2025-02-02T12:00:00.000Z",
+  },
+  {
+    id: "9100000003",
+    title: "Backend Engineer (Node.js)",
+    description: "Design and scale the APIs behind our hiring platform.",
+    location: "Córdoba, Argentina",
+    remotePolicy: "remote",
+    seniority: "senior",
+    employmentType: "full-time",
+    tags: ["Node.js", "PostgreSQL", "AWS"],
+    salary: { max: 80000, currency: "USD", period: "year" },
+  },
+  {
+    id: "9100000004",
+    title: "QA Automation Engineer",
+    seniority: "junior",
+    employmentType: "part-time",
+    tags: ["Playwright", "Cypress"],
+    postedAt: "2025-01-28T12:00:00.000Z",
+  },
+  { id: "9100000005", title: "DevOps Engineer", tags: [] },
+];
+
+const GENERATED_ROLES = [
+  { title: "Software Engineer", tags: ["TypeScript", "React", "Node.js"] },
+  { title: "Data Engineer", tags: ["Python", "SQL", "Airflow"] },
+  { title: "Mobile Developer", tags: ["React Native", "Kotlin", "Swift"] },
+  { title: "Product Designer", tags: ["Figma", "Design Systems"] },
+  { title: "Site Reliability Engineer", tags: ["Kubernetes", "Terraform"] },
+  { title: "Machine Learning Engineer", tags: ["Python", "PyTorch"] },
+];
+
+const GENERATED_LOCATIONS = [
+  "Buenos Aires, Argentina",
+  "Santiago, Chile",
+  "Bogotá, Colombia",
+  "Mexico City, Mexico",
+];
+
+// Builds a large, deterministic catalog so pagination and the virtualized
+// list can be exercised; every few jobs leave optional fields out
+const generateMockJobs = (count: number): Job[] =>
+  Array.from({ length: count }, (_, index) => {
+    const role = GENERATED_ROLES[index % GENERATED_ROLES.length];
+    const baseSalary = 30000 + (index % 10) * 5000;
+
+    return {
+      id: String(9200000000 + index),
+      title: `${role.title} #${index + 1}`,
+      description:
+        index % 4 === 0
+          ? undefined
+          : `Work with a distributed team on ${role.tags.join(", ")}.`,
+      location:
+        index % 3 === 0
+          ? undefined
+          : GENERATED_LOCATIONS[index % GENERATED_LOCATIONS.length],
+      remotePolicy: REMOTE_POLICIES[index % REMOTE_POLICIES.length],
+      seniority: SENIORITY_LEVELS[index % SENIORITY_LEVELS.length],
+      employmentType: EMPLOYMENT_TYPES[index % EMPLOYMENT_TYPES.length],
+      tags: index % 5 === 0 ? [] : role.tags,
+      salary:
+        index % 2 === 0
+          ? {
+              min: baseSalary,
+              max: baseSalary + 15000,
+              currency: "USD",
+              period: "year",
+            }
+          : undefined,
+      postedAt: new Date(Date.UTC(2024, 11, 31 - (index % 60))).toISOString(),
+    };
+  });
+
+// Extra jobs appended to the seeded ones, as a large catalog
+export const GENERATED_JOB_COUNT = 240;
+
+export const MOCK_CATALOG: Job[] = [
+  ...MOCK_JOBS,
+  ...generateMockJobs(GENERATED_JOB_COUNT),
+];
+
+// Seeded candidates the mock backend can authenticate by email
+export const MOCK_CANDIDATES: Candidate[] = [
+  {
+    uuid: "8f3c1a52-1d7e-4a8f-9c2b-5e6d7a8b9c01",
+    candidateId: "74694451005",
+    applicationId: "80340000005",
+    firstName: "Demo",
+    lastName: "Candidate",
+    email: "demo@nimble.test",
+  },
+  {
+    uuid: "2b7e9d14-6c3a-4f51-8e0d-1a2b3c4d5e02",
+    candidateId: "74694451006",
+    applicationId: "80340000006",
+    firstName: "Ana",
+    lastName: "García",
+    email: "ana.garcia@example.com",
+  },
+];
@@ -0,0 +1,180 @@
+import { envConfig } from "@/config";
+import type {
+  ApplicationStatus,
+  Job,
+  JobListPage,
+  Candidate,
+  ApplyToJobDto,
+  AuthTokenResponse,
+} from "@/models";
+
+import { MOCK_CATALOG, MOCK_CANDIDATES } from "./mock.data";
+
+// Application received by the mock backend, with the time it was recorded
+export interface MockApplication extends ApplyToJobDto {
+  receivedAt: string;
+  status: ApplicationStatus;
+}
+
+// Builds the seeded candidate for the configured auth email
+// so the portal can be demoed with whatever VITE_AUTH_EMAIL is set
+const createConfiguredCandidate = (email: string): Candidate => ({
+  uuid: "0c9a8b7d-6e5f-4a3b-8c1d-0e9f8a7b6c00",
+  candidateId: "74694451000",
+  applicationId: "80340000000",
+  firstName: "Configured",
+  lastName: "Candidate",
+  email,
+});
+
+// Claims encoded in the tokens issued by the mock
+// Tokens are self-contained so sessions survive page reloads, even though
+// the rest of the database is reset
+interface MockTokenClaims {
+  type: "access" | "refresh";
+  email: string;
+  expiresAt: number;
+}
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const encodeToken = (claims: MockTokenClaims): string =>
+  `mock.${btoa(encodeURIComponent(JSON.stringify(claims)))}`;
+
+const decodeToken = (token: string): MockTokenClaims | undefined => {
+  try {
+    return JSON.parse(decodeURIComponent(atob(token.replace(/^mock\./, ""))));
+  } catch {
+    return undefined;
+  }
+};
+
+const decodeCursor = (cursor: string | null): number => {
+  try {
+    return cursor ? Number(atob(cursor)) || 0 : 0;
+  } catch {
+    return 0;
+  }
+};
+
+// In-memory database backing the mock routes
+// Seeded on load and reset on every page reload
+class MockDatabase {
+  private jobs: Job[] = [...MOCK_CATALOG];
+  private candidates: Candidate[] = [...MOCK_CANDIDATES];
+  private applications: MockApplication[] = [];
+
+  // Adds a candidate for the configured auth email unless one exists
+  // Called once the runtime configuration is known
+  seedConfiguredCandidate(email: string): void {
+    if (!this.findCandidateByEmail(email)) {
+      this.candidates.push(createConfiguredCandidate(email));
+    }
+  }
+
+  getJobs(): Job[] {
+    return [...this.jobs];
+  }
+
+  // Returns the page of jobs starting at the cursor
+  // The cursor is the encoded offset of the next job, an invalid one
+  // starts over from the first page
+  getJobsPage(cursor: string | null, limit: number): JobListPage {
+    const offset = decodeCursor(cursor);
+    const end = offset + limit;
+
+    return {
+      jobs: this.jobs.slice(offset, end),
+      nextCursor: end < this.jobs.length ? btoa(String(end)) : undefined,
+    };
+  }
+
+  findJob(jobId: string): Job | undefined {
+    return this.jobs.find((job) => job.id === jobId);
+  }
+
+  findCandidateByEmail(email: string): Candidate | undefined {
+    const normalized = email.trim().toLowerCase();
+    return this.candidates.find(
+      (candidate) => candidate.email.toLowerCase() === normalized,
+    );
+  }
+
+  findCandidateById(candidateId: string): Candidate | undefined {
+    return this.candidates.find(
+      (candidate) => candidate.candidateId === candidateId,
+    );
+  }
+
+  // Records an application once per client-generated uuid
+  // Replays of the same uuid return the original record, like a real
+  // idempotent endpoint would
+  recordApplication(application: ApplyToJobDto): MockApplication {
+    const existing = this.applications.find(
+      (record) => record.uuid === application.uuid,
+    );
+
+    if (existing) {
+      return existing;
+    }
+
+    const record: MockApplication = {
+      ...application,
+      receivedAt: new Date().toISOString(),
+      status: "received",
+    };
+    this.applications.push(record);
+    return record;
+  }
+
+  // Issues an access/refresh token pair for the candidate's email
+  issueToken(email: string): AuthTokenResponse {
+    const expiresIn = envConfig.mock.tokenTtl;
+    const now = Date.now();
+
+    return {
+      accessToken: encodeToken({
+        type: "access",
+        email,
+        expiresAt: now + expiresIn * 1000,
+      }),
+      refreshToken: encodeToken({
+        type: "refresh",
+        email,
+        expiresAt: now + REFRESH_TOKEN_TTL_MS,
+      }),
+      expiresIn,
+    };
+  }
+
+  // Exchanges a valid refresh token for a new token pair
+  refreshToken(refreshToken: string): AuthTokenResponse | undefined {
+    const claims = this.verifyToken(refreshToken, "refresh");
+    return claims && this.issueToken(claims.email);
+  }
+
+  // Whether the access token was issued by the mock and hasn't expired
+  isValidAccessToken(accessToken: string): boolean {
+    return this.verifyToken(accessToken, "access") !== undefined;
+  }
+
+  private verifyToken(
+    token: string,
+    type: MockTokenClaims["type"],
+  ): MockTokenClaims | undefined {
+    const claims = decodeToken(token);
+    const isValid =
+      claims?.type === type &&
+      claims.expiresAt > Date.now() &&
+      this.findCandidateByEmail(claims.email) !== undefined;
+
+    return isValid ? claims : undefined;
+  }
+
+  // Returns every application recorded since the page was loaded
+  getApplications(): MockApplication[] {
+    return [...this.applications];
+  }
+}
+
+export const mockDb = new MockDatabase();
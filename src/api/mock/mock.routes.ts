@@ -0,0 +1,146 @@
+import { API_ENDPOINTS } from "@/constants";
+import type { ApplyToJobDto } from "@/models";
+import { mockDb } from "./mock.db";
+
+// Request as seen by a mock route handler
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// Response produced by a mock route handler
+export interface MockResponse {
+  status: number;
+  data: unknown;
+}
+
+interface MockRoute {
+  method: string;
+  path: string;
+  public?: boolean; // Served without a valid bearer token
+  handler: (request: MockRequest) => MockResponse;
+}
+
+const ok = (data: unknown): MockResponse => ({ status: 200, data });
+
+const fail = (status: number, error: string): MockResponse => ({
+  status,
+  data: { error },
+});
+
+// Checks that the body contains every field required by ApplyToJobDto
+const isApplyToJobDto = (body: unknown): body is ApplyToJobDto => {
+  if (!body || typeof body !== "object") {
+    return false;
+  }
+
+  const fields: (keyof ApplyToJobDto)[] = [
+    "uuid",
+    "jobId",
+    "candidateId",
+    "repoUrl",
+  ];
+
+  return fields.every(
+    (field) => typeof (body as Record<string, unknown>)[field] === "string",
+  );
+};
+
+// Reads a string field from a JSON body
+const getBodyField = (body: unknown, field: string): string | undefined => {
+  const value = (body as Record<string, unknown> | null)?.[field];
+  return typeof value === "string" ? value : undefined;
+};
+
+// Whether the request carries a valid access token issued by the mock
+export const isAuthorized = ({ headers }: MockRequest): boolean => {
+  const [scheme, token] = (headers.authorization ?? "").split(" ");
+  return scheme === "Bearer" && !!token && mockDb.isValidAccessToken(token);
+};
+
+// Routes mirroring the real API endpoints in API_ENDPOINTS
+export const MOCK_ROUTES: MockRoute[] = [
+  {
+    method: "post",
+    path: API_ENDPOINTS.AUTH.TOKEN,
+    public: true,
+    handler: ({ body }) => {
+      const email = getBodyField(body, "email");
+
+      if (!email) {
+        return fail(400, "Email is required");
+      }
+
+      const candidate = mockDb.findCandidateByEmail(email);
+      return candidate
+        ? ok(mockDb.issueToken(candidate.email))
+        : fail(404, "Candidate not found");
+    },
+  },
+  {
+    method: "post",
+    path: API_ENDPOINTS.AUTH.REFRESH,
+    public: true,
+    handler: ({ body }) => {
+      const refreshToken = getBodyField(body, "refreshToken");
+      const tokens = refreshToken && mockDb.refreshToken(refreshToken);
+      return tokens ? ok(tokens) : fail(401, "Invalid refresh token");
+    },
+  },
+  {
+    method: "get",
+    path: API_ENDPOINTS.JOBS.GET_LIST,
+    // Paginated when a limit is sent, otherwise the whole list as an array
+    handler: ({ query }) => {
+      const limit = Number(query.get("limit"));
+      return limit > 0
+        ? ok(mockDb.getJobsPage(query.get("cursor"), limit))
+        : ok(mockDb.getJobs());
+    },
+  },
+  {
+    method: "get",
+    // The endpoint builder includes the query string, only the path is matched
+    path: API_ENDPOINTS.CANDIDATE.GET_BY_EMAIL("").split("?")[0],
+    handler: ({ query }) => {
+      const email = query.get("email");
+
+      if (!email) {
+        return fail(400, "Email is required");
+      }
+
+      const candidate = mockDb.findCandidateByEmail(email);
+      return candidate ? ok(candidate) : fail(404, "Candidate not found");
+    },
+  },
+  {
+    method: "post",
+    path: API_ENDPOINTS.CANDIDATE.APPLY_TO_JOB,
+    handler: ({ body }) => {
+      if (!isApplyToJobDto(body)) {
+        return fail(400, "Invalid application payload");
+      }
+
+      if (!mockDb.findJob(body.jobId)) {
+        return fail(404, "Job not found");
+      }
+
+      if (!mockDb.findCandidateById(body.candidateId)) {
+        return fail(404, "Candidate not found");
+      }
+
+      const application = mockDb.recordApplication(body);
+      return ok({ ok: true, status: application.status });
+    },
+  },
+];
+
+// Finds the route that handles the given method and path
+export const findMockRoute = (
+  method: string,
+  path: string,
+): MockRoute | undefined =>
+  MOCK_ROUTES.find((route) => route.method === method && route.path === path);
@@ -0,0 +1,120 @@
+import type {
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { API_ENDPOINTS, SESSION_CONFIG } from "@/constants";
+import { decodeAuthTokenResponse } from "@/models";
+import type { AuthSession } from "@/models";
+import { ApiError, decodeResponse, isApiError } from "./api.error";
+import { createSession, sessionStore } from "./session.store";
+
+export type SessionRefresher = () => Promise<AuthSession>;
+
+// Whether a failed refresh means the refresh token itself was rejected
+// (as opposed to the server being unreachable, which keeps the session)
+const isRejectedRefresh = (error: unknown): boolean =>
+  isApiError(error) &&
+  (error.kind === "unauthorized" ||
+    error.kind === "validation" ||
+    error.kind === "not-found");
+
+// Creates the function that exchanges the refresh token for a new session
+// Concurrent callers share the same request; a rejected refresh token
+// ends the session as expired
+export const createSessionRefresher = (
+  client: AxiosInstance,
+): SessionRefresher => {
+  let refreshing: Promise<AuthSession> | null = null;
+
+  const refresh = async (): Promise<AuthSession> => {
+    const session = sessionStore.get();
+
+    if (!session) {
+      throw new ApiError("unauthorized", "No session to refresh", {
+        status: 401,
+      });
+    }
+
+    const endpoint = API_ENDPOINTS.AUTH.REFRESH;
+    const response = await client.post<unknown>(
+      endpoint,
+      { refreshToken: session.refreshToken },
+      { skipAuth: true },
+    );
+    const nextSession = createSession(
+      decodeResponse(decodeAuthTokenResponse, response.data, endpoint),
+    );
+    sessionStore.set(nextSession);
+    return nextSession;
+  };
+
+  return () => {
+    refreshing ??= refresh()
+      .catch((error: unknown) => {
+        if (isRejectedRefresh(error)) {
+          sessionStore.end("expired");
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+    return refreshing;
+  };
+};
+
+// Attaches the session token to every request, refreshing it first
+// when it's about to expire
+// If the refresh fails the request is still sent and the API decides
+export const installSessionInterceptor = (
+  client: AxiosInstance,
+  refreshSession: SessionRefresher,
+): void => {
+  client.interceptors.request.use(
+    async (config: InternalAxiosRequestConfig) => {
+      if (config.skipAuth || !sessionStore.get()) {
+        return config;
+      }
+
+      if (sessionStore.isExpiring(SESSION_CONFIG.REFRESH_MARGIN_MS)) {
+        await refreshSession().catch(() => undefined);
+      }
+
+      const session = sessionStore.get();
+
+      if (session) {
+        config.headers.Authorization = `Bearer ${session.accessToken}`;
+      }
+
+      return config;
+    },
+  );
+};
+
+// Handles a 401 response: refreshes the token once and replays the request
+// If there's nothing to refresh, or the replay is rejected again,
+// the session ends as unauthorized and the original error is rethrown
+export const retryUnauthorized = async (
+  client: AxiosInstance,
+  refreshSession: SessionRefresher,
+  config: InternalAxiosRequestConfig,
+  error: ApiError,
+): Promise<AxiosResponse> => {
+  if (config.skipAuth) {
+    throw error;
+  }
+
+  if (config.authRetried || !sessionStore.get()) {
+    sessionStore.end("unauthorized");
+    throw error;
+  }
+
+  try {
+    await refreshSession();
+  } catch {
+    throw error;
+  }
+
+  return client({ ...config, authRetried: true });
+};
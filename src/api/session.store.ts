@@ -0,0 +1,89 @@
+import { STORAGE_KEYS } from "@/constants";
+import { decodeAuthSession } from "@/models";
+import type { AuthSession, AuthTokenResponse, SessionEndReason } from "@/models";
+
+type SessionListener = () => void;
+type SessionEndedListener = (reason: SessionEndReason) => void;
+
+// Builds the stored session from a token response
+export const createSession = (response: AuthTokenResponse): AuthSession => ({
+  accessToken: response.accessToken,
+  refreshToken: response.refreshToken,
+  expiresAt: Date.now() + response.expiresIn * 1000,
+});
+
+// Holds the current auth session, persisted in localStorage
+// Notifies subscribers on every change and when the session ends
+class SessionStore {
+  private session: AuthSession | null | undefined;
+  private listeners = new Set<SessionListener>();
+  private endedListeners = new Set<SessionEndedListener>();
+
+  // Gets the current session, restoring it from localStorage the first time
+  get(): AuthSession | null {
+    if (this.session === undefined) {
+      this.session = this.load();
+    }
+    return this.session;
+  }
+
+  set(session: AuthSession): void {
+    this.session = session;
+    localStorage.setItem(STORAGE_KEYS.AUTH_SESSION, JSON.stringify(session));
+    this.notify();
+  }
+
+  // Whether the access token expires within the given margin
+  isExpiring(marginMs = 0): boolean {
+    const session = this.get();
+    return !session || session.expiresAt - marginMs <= Date.now();
+  }
+
+  // Removes the session and tells the listeners why it ended
+  end(reason: SessionEndReason): void {
+    const hadSession = this.get() !== null;
+    this.session = null;
+    localStorage.removeItem(STORAGE_KEYS.AUTH_SESSION);
+    this.notify();
+
+    if (hadSession) {
+      this.endedListeners.forEach((listener) => listener(reason));
+    }
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onEnded(listener: SessionEndedListener): () => void {
+    this.endedListeners.add(listener);
+    return () => {
+      this.endedListeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Reads the persisted session, discarding it if it can't be parsed
+  private load(): AuthSession | null {
+    const data = localStorage.getItem(STORAGE_KEYS.AUTH_SESSION);
+
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return decodeAuthSession(JSON.parse(data));
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.AUTH_SESSION);
+      return null;
+    }
+  }
+}
+
+export const sessionStore = new SessionStore();
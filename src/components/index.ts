@@ -2,3 +2,15 @@ export { default as SettingsBar } from "./SettingsBar/SettingsBar";
 export { default as JobsHeader } from "./jobs/header/JobsHeader";
 export { default as CandidateInfoCard } from "./jobs/info/CandidateInfoCard";
 export { default as JobCard } from "./jobs/jobCard/JobCard";
+export { default as JobDetails } from "./jobs/jobDetails/JobDetails";
+export { default as JobsToolbar } from "./jobs/toolbar/JobsToolbar";
+export { default as JobsList } from "./jobs/list/JobsList";
+export { default as ApplicationHistory } from "./jobs/history/ApplicationHistory";
+export { default as Link } from "./router/Link";
+export { default as Navigate } from "./router/Navigate";
+export { default as BatchApplyPanel } from "./jobs/batch/BatchApplyPanel";
+export { default as ApplicationForm } from "./jobs/applicationForm/ApplicationForm";
+export { default as JobComparisonDrawer } from "./jobs/comparison/JobComparisonDrawer";
+export { default as JobAlerts } from "./jobs/alerts/JobAlerts";
+export { default as RepositoryHostBadge } from "./jobs/repositoryHost/RepositoryHostBadge";
+export { default as RepositoryPreflightSummary } from "./jobs/preflight/RepositoryPreflightSummary";
@@ -0,0 +1,152 @@
+import React from "react";
+import type { JobAlert } from "@/models";
+import {
+  EMPLOYMENT_TYPE_TRANSLATION_KEYS,
+  REMOTE_POLICY_TRANSLATION_KEYS,
+  SENIORITY_TRANSLATION_KEYS,
+} from "@/constants";
+import { parseJobFilters } from "@/utils";
+import { useTranslation } from "@/hooks";
+import "./JobAlerts.css";
+
+/**
+ * Props for the JobAlerts component.
+ *
+ * @property alerts - Saved searches the candidate subscribed to.
+ * @property newCount - Number of new jobs matching an alert not looked at yet.
+ * @property isCurrentSearchSubscribed - Whether an alert already exists for the current search.
+ * @property onSubscribe - Subscribes to the current search.
+ * @property onRemove - Removes an alert.
+ * @property onShowNew - Shows the new jobs in the list.
+ * @property onDismissNew - Hides the banner without reloading the list.
+ */
+interface JobAlertsProps {
+  alerts: JobAlert[];
+  newCount: number;
+  isCurrentSearchSubscribed: boolean;
+  onSubscribe: () => void;
+  onRemove: (alertId: string) => void;
+  onShowNew: () => void;
+  onDismissNew: () => void;
+}
+
+/**
+ * JobAlerts
+ *
+ * Controls of the job alerts on the jobs page.
+ *
+ * Functionality:
+ * - Shows an "N new positions" banner when a check of the alerts (useJobAlerts)
+ *   found new jobs matching them, with actions to show them or dismiss it.
+ * - Subscribes the candidate to the current search and filters of the list.
+ * - Lists the alerts, described by their search and filters, each with an
+ *   action to remove it.
+ * - Warns that only the banner is shown when browser notifications are blocked.
+ *
+ * @param props - JobAlertsProps with the alerts and handlers.
+ * @returns Element with the banner, the subscribe action and the alerts.
+ */
+const JobAlerts: React.FC<JobAlertsProps> = ({
+  alerts,
+  newCount,
+  isCurrentSearchSubscribed,
+  onSubscribe,
+  onRemove,
+  onShowNew,
+  onDismissNew,
+}) => {
+  const { t } = useTranslation();
+
+  const notificationsBlocked =
+    alerts.length > 0 &&
+    "Notification" in window &&
+    Notification.permission === "denied";
+
+  /**
+   * Describes the search of an alert, e.g. "“react” · Remote · Senior".
+   *
+   * @param search - Query string of the filters of the alert.
+   * @returns Translated description, "All positions" when nothing narrows it.
+   */
+  const describeSearch = (search: string): string => {
+    const { query, remotePolicy, seniority, employmentType } = parseJobFilters(
+      new URLSearchParams(search),
+    );
+
+    const parts = [
+      query.trim() && `“${query.trim()}”`,
+      remotePolicy && t(REMOTE_POLICY_TRANSLATION_KEYS[remotePolicy]),
+      seniority && t(SENIORITY_TRANSLATION_KEYS[seniority]),
+      employmentType && t(EMPLOYMENT_TYPE_TRANSLATION_KEYS[employmentType]),
+    ].filter((part): part is string => !!part);
+
+    return parts.length > 0 ? parts.join(" · ") : t("allPositions");
+  };
+
+  return (
+    <section className="job-alerts" aria-label={t("jobAlertsTitle")}>
+      {newCount > 0 && (
+        <div className="job-alerts-banner" role="status" aria-live="polite">
+          <span>{t("newPositionsBanner", { count: newCount })}</span>
+          <div className="job-alerts-banner-actions">
+            <button
+              type="button"
+              className="job-alerts-primary"
+              onClick={onShowNew}
+            >
+              {t("showNewPositions")}
+            </button>
+            <button
+              type="button"
+              className="job-alerts-link"
+              onClick={onDismissNew}
+            >
+              {t("dismiss")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="job-alerts-row">
+        {alerts.length > 0 && (
+          <ul className="job-alerts-list" aria-label={t("jobAlertsTitle")}>
+            {alerts.map((alert) => {
+              const description = describeSearch(alert.search);
+
+              return (
+                <li key={alert.id} className="job-alerts-chip">
+                  <span>{description}</span>
+                  <button
+                    type="button"
+                    className="job-alerts-remove"
+                    aria-label={t("removeJobAlert", { search: description })}
+                    title={t("removeJobAlert", { search: description })}
+                    onClick={() => onRemove(alert.id)}
+                  >
+                    ×
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <button
+          type="button"
+          className="job-alerts-subscribe"
+          onClick={onSubscribe}
+          disabled={isCurrentSearchSubscribed}
+          aria-pressed={isCurrentSearchSubscribed}
+        >
+          {t(isCurrentSearchSubscribed ? "jobAlertActive" : "createJobAlert")}
+        </button>
+      </div>
+
+      {notificationsBlocked && (
+        <p className="job-alerts-note">{t("notificationsBlocked")}</p>
+      )}
+    </section>
+  );
+};
+
+export default JobAlerts;
@@ -0,0 +1,596 @@
+import React, { useCallback, useId, useMemo } from "react";
+import {
+  ApplicationHistoryService,
+  JobService,
+  OutboxService,
+  RepositoryInspectionService,
+  applicationForms,
+  isOfflineError,
+} from "@/services";
+import type { ApplicationFormValues } from "@/services";
+import type {
+  Job,
+  Candidate,
+  ApplyToJobDto,
+  FormRules,
+  OutboxEntry,
+  RepositoryRef,
+} from "@/models";
+import { getErrorTranslationKey, isAbortError, isApiError } from "@/api";
+import {
+  formatTime,
+  getRepositoryUrlPlaceholder,
+  parseRepositoryUrl,
+  repositoryUrl,
+} from "@/utils";
+import { $Default } from "@/constants/defualt.constants";
+import {
+  API_ERROR_TRANSLATION_KEYS,
+  REPOSITORY_INSPECTION_PROBLEM_TRANSLATION_KEYS,
+} from "@/constants/error.constants";
+import type { TranslationKey } from "@/constants/translations.constants";
+import {
+  useApplicationForm,
+  useForm,
+  useLanguage,
+  useOutbox,
+  useTranslation,
+} from "@/hooks";
+import type { FormSubmitHelpers } from "@/hooks";
+import RepositoryHostBadge from "../repositoryHost/RepositoryHostBadge";
+import RepositoryPreflightSummary from "../preflight/RepositoryPreflightSummary";
+import "./ApplicationForm.css";
+
+/**
+ * Props for the ApplicationForm component.
+ *
+ * @property job - Job the candidate applies to.
+ * @property candidate - Data of the candidate who is applying (candidateId, applicationId).
+ */
+interface ApplicationFormProps {
+  job: Job;
+  candidate: Candidate;
+}
+
+const APPLICATION_FORM_INITIAL_VALUES: ApplicationFormValues = {
+  repoUrl: $Default.EMPTY_STRING,
+};
+
+const APPLICATION_FORM_RULES: FormRules<ApplicationFormValues> = {
+  repoUrl: { sync: [repositoryUrl()] },
+};
+
+/**
+ * ApplicationForm
+ *
+ * Form to apply to a job with a repository, used by the job cards and
+ * the columns of the comparison drawer.
+ *
+ * Functionality:
+ * - Provides a field for the candidate to enter their repository URL, showing
+ *   the host detected in it (GitHub, GitLab, Bitbucket or a self-hosted one).
+ * - Parses the repository URL before submitting it, accepting the common
+ *   ways of writing it, and submits its canonical form.
+ * - Checks the repository before submitting it (RepositoryInspectionService):
+ *   the first submit confirms it exists, is public and has commits and shows
+ *   a summary of it, the second one sends the application. Problems found
+ *   are shown as errors, and a check that can't be made doesn't block it.
+ * - Sends the application to the API when the form is valid, tagged with a
+ *   client-generated idempotency key.
+ * - Shows the progress of automatic retries on transient failures.
+ * - Keeps its state in the application form store (useApplicationForm), so
+ *   the URL, messages and a submission in flight survive the form unmounting,
+ *   and every form of the same job shows the same state. Submissions are
+ *   aborted when the session ends.
+ * - Queues the application in the offline outbox when the browser is offline,
+ *   showing a cancellable "pending sync" state until it's delivered.
+ * - Autosaves the URL being typed as a draft per candidate and job, restored
+ *   after a reload or a new login, with a "draft saved" indicator and an
+ *   action to discard it. The draft is cleared once the application is sent.
+ * - Manages loading, error, and success states independently.
+ * - Automatically clears the form after a successful application.
+ *
+ * Validations (parseRepositoryUrl):
+ * - The URL cannot be empty.
+ * - The URL must point to a repository on one of the configured hosts:
+ *   https or SSH, optionally with "www.", a ".git" suffix or a branch path,
+ *   following the URL rules of the provider of the host.
+ * - Each rejection has its own translated reason (wrong host, missing
+ *   repository, invalid owner or name...).
+ * - When the canonical URL differs from the typed one, it's shown below the field.
+ *
+ * States (ApplicationFormState):
+ * - form: Values, errors and submit state of the field (useForm): the URL
+ *   entered by the user, its validation error or the error of the request,
+ *   and whether a check or request is in progress.
+ * - errorReference: Correlation ID of the failed request, quoted in support tickets.
+ * - isSuccess: Indicates whether the application was successful.
+ * - retry: Current retry attempt while the service retries the submission.
+ * - draftSavedAt: When the URL was last saved as a draft.
+ * - preflight: Pre-flight check of the repository (checking, passed or unavailable).
+ *
+ * @param props - ApplicationFormProps with the job and candidate information.
+ * @returns React element that renders the application form and its messages.
+ */
+const ApplicationForm: React.FC<ApplicationFormProps> = ({
+  job,
+  candidate,
+}) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { entries, cancel } = useOutbox();
+
+  // The same job may have several forms on screen (card and comparison drawer)
+  const inputId = useId();
+  const errorId = useId();
+
+  /**
+   * Application of this candidate to this job waiting in the offline outbox.
+   */
+  const outboxEntry: OutboxEntry | undefined = entries.find(
+    ({ payload }) =>
+      payload.jobId === job.id && payload.candidateId === candidate.candidateId,
+  );
+
+  /**
+   * State of the application form, kept in the store while the form is unmounted.
+   *
+   * The store also holds the idempotency key of the current submission: it's
+   * kept across automatic retries and across a manual resubmission of the
+   * same URL after a failure, so the server never records it twice, and
+   * discarded when the URL changes or the application succeeds.
+   */
+  const { formKey, state, updateState, formStore } = useApplicationForm(
+    candidate.candidateId,
+    job.id,
+  );
+
+  /**
+   * Parsed repository URL: the repository and its canonical URL, or why
+   * it's rejected.
+   */
+  const parsedUrl = useMemo(
+    () => parseRepositoryUrl(state.form.values.repoUrl),
+    [state.form.values.repoUrl],
+  );
+
+  /**
+   * Whether the repository at the URL still has to be checked before the
+   * application is sent: a check passed (or couldn't be made) for exactly
+   * this URL lets the next submit through.
+   */
+  const needsPreflight =
+    parsedUrl.ok &&
+    RepositoryInspectionService.isEnabled() &&
+    (state.preflight?.url !== parsedUrl.canonicalUrl ||
+      state.preflight.status === "checking");
+
+  /**
+   * Runs the pre-flight check of the repository.
+   *
+   * A passed check is kept in the state with the summary of the repository,
+   * and a failed check is kept as "unavailable" so the candidate can submit
+   * anyway. The result is dropped if the URL changed while it was being checked.
+   *
+   * @param repository - Repository parsed from the URL.
+   * @param url - Canonical URL of the repository.
+   * @returns Translation key of the problem found, or null if there's none.
+   */
+  const checkRepository = useCallback(
+    async (
+      repository: RepositoryRef,
+      url: string,
+    ): Promise<TranslationKey | null> => {
+      updateState({
+        preflight: { status: "checking", url },
+        errorReference: null,
+      });
+
+      const signal = applicationForms.startSubmission(formKey);
+      const isCurrent = () =>
+        applicationForms.getState(formKey).preflight?.url === url;
+
+      try {
+        const inspection = await RepositoryInspectionService.inspect(
+          repository,
+          signal,
+        );
+
+        if (!isCurrent()) {
+          return null;
+        }
+
+        if (!inspection.ok) {
+          updateState({ preflight: null });
+          return REPOSITORY_INSPECTION_PROBLEM_TRANSLATION_KEYS[
+            inspection.problem
+          ];
+        }
+
+        updateState({
+          preflight: { status: "passed", url, summary: inspection.summary },
+        });
+      } catch (err) {
+        if (!isAbortError(err) && isCurrent()) {
+          updateState({ preflight: { status: "unavailable", url } });
+        }
+      } finally {
+        if (!signal.aborted) {
+          applicationForms.finishSubmission(formKey);
+        }
+      }
+
+      return null;
+    },
+    [formKey, updateState],
+  );
+
+  /**
+   * Builds the application payload with the candidate and job information
+   * and the idempotency key of this submission.
+   *
+   * @param url - Validated repository URL.
+   * @returns Payload ready to be sent or queued.
+   */
+  const buildPayload = useCallback(
+    (url: string): ApplyToJobDto => {
+      return {
+        uuid: applicationForms.getIdempotencyKey(formKey),
+        jobId: job.id,
+        candidateId: candidate.candidateId,
+        applicationId: candidate.applicationId,
+        repoUrl: url,
+      };
+    },
+    [formKey, candidate, job],
+  );
+
+  /**
+   * Queues the application in the offline outbox.
+   * The card then shows the "pending sync" state from the outbox entry.
+   *
+   * @param payload - Application to send once the browser is back online.
+   */
+  const queueOffline = useCallback(
+    (payload: ApplyToJobDto): void => {
+      OutboxService.enqueue(payload, job.title);
+      applicationForms.resetIdempotencyKey(formKey);
+    },
+    [formKey, job.title],
+  );
+
+  /**
+   * Sends the candidate's application to the API.
+   *
+   * The service retries transient failures, reporting each attempt through
+   * onRetry. If the response is successful, records the application in the
+   * history and updates the state to show the success message.
+   *
+   * @param payload - Application payload built by buildPayload.
+   * @param signal - Signal that cancels the submission and its retries.
+   * @returns Whether the application was accepted.
+   * @throws Error if the request fails or is aborted.
+   */
+  const submitApplication = useCallback(
+    async (payload: ApplyToJobDto, signal: AbortSignal): Promise<boolean> => {
+      const result = await JobService.applyToJob(payload, {
+        signal,
+        onRetry: (attempt, maxAttempts) =>
+          updateState({ retry: { attempt, maxAttempts } }),
+      });
+
+      if (result.ok) {
+        ApplicationHistoryService.record(payload, result, job.title);
+        applicationForms.resetIdempotencyKey(formKey);
+        updateState({ isSuccess: true, preflight: null });
+      }
+
+      return result.ok;
+    },
+    [formKey, job.title, updateState],
+  );
+
+  /**
+   * Handler of a valid submission, called by useForm once the repository
+   * URL passed its rules.
+   *
+   * Execution flow:
+   * 1. When the browser is offline the application is queued, unchecked.
+   * 2. If the repository wasn't checked yet, runs the pre-flight check and
+   *    stops: the summary is shown and the next submit confirms it, or the
+   *    problem found is shown as the error of the field.
+   * 3. Otherwise, sends the application with the canonical URL of the
+   *    repository and clears the form once it's accepted.
+   * 4. Maps API errors to a translated message and displays it to the user,
+   *    as well as a response that didn't accept the application.
+   *    Aborted submissions are ignored since the session has ended.
+   *    Connectivity failures queue the application in the offline outbox.
+   *
+   * @param values - Values of the form.
+   * @param helpers - Actions of useForm to report the outcome.
+   */
+  const handleValidSubmit = useCallback(
+    async (
+      { repoUrl }: ApplicationFormValues,
+      {
+        setFieldError,
+        setFormError,
+        reset,
+      }: FormSubmitHelpers<ApplicationFormValues>,
+    ): Promise<void> => {
+      const parsed = parseRepositoryUrl(repoUrl);
+      if (!parsed.ok) {
+        return;
+      }
+
+      if (!navigator.onLine) {
+        queueOffline(buildPayload(parsed.canonicalUrl));
+        reset();
+        return;
+      }
+
+      if (needsPreflight) {
+        const problem = await checkRepository(
+          parsed.repository,
+          parsed.canonicalUrl,
+        );
+        setFieldError("repoUrl", problem);
+        return;
+      }
+
+      const payload = buildPayload(parsed.canonicalUrl);
+      updateState({ errorReference: null });
+
+      const signal = applicationForms.startSubmission(formKey);
+
+      try {
+        if (await submitApplication(payload, signal)) {
+          reset();
+        } else {
+          // The server answered without accepting the application
+          setFormError("applicationNotAccepted");
+        }
+      } catch (err) {
+        if (isAbortError(err)) {
+          return;
+        }
+
+        if (isOfflineError(err)) {
+          queueOffline(payload);
+          reset();
+        } else {
+          setFormError(getErrorTranslationKey(err, "submitFailed"));
+          updateState({
+            errorReference: isApiError(err)
+              ? (err.correlationId ?? null)
+              : null,
+          });
+        }
+      } finally {
+        if (!signal.aborted) {
+          updateState({ retry: null });
+          applicationForms.finishSubmission(formKey);
+        }
+      }
+    },
+    [
+      formKey,
+      needsPreflight,
+      checkRepository,
+      buildPayload,
+      queueOffline,
+      submitApplication,
+      updateState,
+    ],
+  );
+
+  /**
+   * Fields, validation and submit state of the form (useForm), kept in the
+   * application form store.
+   */
+  const form = useForm({
+    initialValues: APPLICATION_FORM_INITIAL_VALUES,
+    rules: APPLICATION_FORM_RULES,
+    onSubmit: handleValidSubmit,
+    store: formStore,
+  });
+
+  /**
+   * Handler for changes in the repository URL input.
+   *
+   * Updates the URL, revalidating it if it shows an error, and clears the
+   * outdated feedback of the previous URL: the request error, the success
+   * message and the pre-flight check.
+   *
+   * @param url - New URL entered by the user.
+   */
+  const handleRepoUrlChange = (url: string): void => {
+    applicationForms.resetIdempotencyKey(formKey);
+    updateState({ errorReference: null, isSuccess: false, preflight: null });
+    form.setValue("repoUrl", url);
+  };
+
+  /**
+   * Discards the draft of the form, emptying the repository URL.
+   */
+  const handleDiscardDraft = (): void => {
+    applicationForms.resetIdempotencyKey(formKey);
+    updateState({ errorReference: null, preflight: null });
+    form.reset();
+  };
+
+  /**
+   * Error shown below the field: the one of the URL, or of the request.
+   */
+  const error = form.errors.repoUrl ?? form.formError;
+
+  /**
+   * Determines whether the submit button should be disabled.
+   *
+   * @returns true if submitting, checking the repository, the URL is empty or an application is waiting to sync.
+   */
+  const isSubmitDisabled = (): boolean => {
+    const isQueued =
+      outboxEntry !== undefined && outboxEntry.status !== "failed";
+    return form.isSubmitting || isQueued || !form.values.repoUrl.trim();
+  };
+
+  /**
+   * Pre-flight check of the repository currently in the field, if any.
+   */
+  const currentPreflight =
+    parsedUrl.ok && state.preflight?.url === parsedUrl.canonicalUrl
+      ? state.preflight
+      : null;
+
+  /**
+   * Renders the state of the application waiting in the offline outbox.
+   *
+   * - pending/syncing: informs that it will be sent when back online, with a cancel action.
+   * - failed: shows why the server rejected the replay, with a dismiss action.
+   *
+   * @returns Element with the outbox state or null if nothing is queued.
+   */
+  const renderOutboxState = (): React.ReactElement | null => {
+    if (!outboxEntry) {
+      return null;
+    }
+
+    const { status, errorKind, payload } = outboxEntry;
+    const isFailed = status === "failed";
+
+    const messageKey: TranslationKey = isFailed
+      ? API_ERROR_TRANSLATION_KEYS[errorKind ?? "server"]
+      : status === "syncing"
+        ? "syncingApplication"
+        : "pendingSync";
+
+    return (
+      <div
+        className={`outbox-message ${isFailed ? "error-message" : "pending-sync-message"}`}
+        role={isFailed ? "alert" : "status"}
+        aria-live="polite"
+      >
+        <span>
+          {isFailed && `${t("queuedApplicationFailed")} `}
+          {t(messageKey)}
+        </span>
+        {status !== "syncing" && (
+          <button
+            type="button"
+            className="outbox-cancel-button"
+            onClick={() => cancel(payload.uuid)}
+          >
+            {t(isFailed ? "dismiss" : "cancelPendingApplication")}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Gets the submit button text based on the current state.
+   *
+   * @returns Translated text for the button.
+   */
+  const getSubmitButtonText = (): string => {
+    if (currentPreflight?.status === "checking") {
+      return t("checkingRepository");
+    }
+
+    if (form.isSubmitting) {
+      return t("submitting");
+    }
+
+    return currentPreflight ? t("confirmSubmission") : t("submitApplication");
+  };
+
+  return (
+    <form className="job-form" onSubmit={form.handleSubmit} noValidate>
+      <div className="repo-input-group">
+        <label htmlFor={inputId} className="repo-label">
+          {t("repositoryUrl")}
+        </label>
+        <input
+          id={inputId}
+          type="url"
+          className="repo-input"
+          placeholder={getRepositoryUrlPlaceholder()}
+          {...form.getFieldProps("repoUrl")}
+          onChange={(e) => handleRepoUrlChange(e.target.value)}
+          disabled={form.isSubmitting}
+          aria-describedby={error ? errorId : undefined}
+        />
+        <RepositoryHostBadge repoUrl={form.values.repoUrl} />
+        {parsedUrl.ok &&
+          parsedUrl.canonicalUrl !== form.values.repoUrl.trim() && (
+            <p className="repo-canonical-url">
+              {t("repoUrlCanonical", { url: parsedUrl.canonicalUrl })}
+            </p>
+          )}
+        {state.draftSavedAt && !form.isSubmitting && (
+          <div className="draft-status">
+            <span role="status" aria-live="polite">
+              {t("draftSaved", {
+                time: formatTime(state.draftSavedAt, language),
+              })}
+            </span>
+            <button
+              type="button"
+              className="draft-discard-button"
+              onClick={handleDiscardDraft}
+            >
+              {t("discardDraft")}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {currentPreflight &&
+        (currentPreflight.status === "checking" || !form.isSubmitting) && (
+          <RepositoryPreflightSummary preflight={currentPreflight} />
+        )}
+
+      {error && (
+        <div
+          id={errorId}
+          className="error-message"
+          role="alert"
+          aria-live="polite"
+        >
+          {t(error)}
+          {!form.errors.repoUrl && state.errorReference && (
+            <span className="error-reference">
+              {t("errorReference", { id: state.errorReference })}
+            </span>
+          )}
+        </div>
+      )}
+
+      {renderOutboxState()}
+
+      {state.retry && (
+        <div className="retry-message" role="status" aria-live="polite">
+          {t("retryingSubmission", { ...state.retry })}
+        </div>
+      )}
+
+      {state.isSuccess && (
+        <div className="success-message" role="status" aria-live="polite">
+          {t("applicationSuccess")}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        className="submit-button"
+        disabled={isSubmitDisabled()}
+        aria-busy={form.isSubmitting}
+      >
+        {getSubmitButtonText()}
+      </button>
+    </form>
+  );
+};
+
+export default ApplicationForm;
@@ -0,0 +1,343 @@
+import React, { useEffect, useRef, useState } from "react";
+import { isAbortError } from "@/api";
+import type { FormRules, FormValues, Job, RepositoryRef } from "@/models";
+import { BATCH_APPLY_STATUS_TRANSLATION_KEYS } from "@/constants";
+import type { TranslationKey } from "@/constants";
+import { $Default } from "@/constants/defualt.constants";
+import { REPOSITORY_INSPECTION_PROBLEM_TRANSLATION_KEYS } from "@/constants/error.constants";
+import { RepositoryInspectionService } from "@/services";
+import type { RepositoryPreflight } from "@/services";
+import {
+  getRepositoryUrlPlaceholder,
+  parseRepositoryUrl,
+  repositoryUrl,
+} from "@/utils";
+import { useForm, useTranslation } from "@/hooks";
+import type { BatchApplyState } from "@/hooks";
+import RepositoryHostBadge from "../repositoryHost/RepositoryHostBadge";
+import RepositoryPreflightSummary from "../preflight/RepositoryPreflightSummary";
+import "./BatchApplyPanel.css";
+
+interface BatchApplyFormValues extends FormValues {
+  repoUrl: string;
+}
+
+const BATCH_APPLY_FORM_INITIAL_VALUES: BatchApplyFormValues = {
+  repoUrl: $Default.EMPTY_STRING,
+};
+
+const BATCH_APPLY_FORM_RULES: FormRules<BatchApplyFormValues> = {
+  repoUrl: { sync: [repositoryUrl()] },
+};
+
+/**
+ * Props for the BatchApplyPanel component.
+ *
+ * @property selectedJobs - Jobs selected in the list.
+ * @property batch - State of the current batch submission (useBatchApply).
+ * @property onSubmit - Sends the repository to every selected job.
+ * @property onRetry - Retries one failed job, or every failed job when called without an ID.
+ * @property onClearSelection - Unselects every job.
+ * @property onClose - Leaves the selection mode.
+ */
+interface BatchApplyPanelProps {
+  selectedJobs: Job[];
+  batch: BatchApplyState;
+  onSubmit: (repoUrl: string) => void;
+  onRetry: (jobId?: string) => void;
+  onClearSelection: () => void;
+  onClose: () => void;
+}
+
+/**
+ * BatchApplyPanel
+ *
+ * Panel of the multi-select mode, to send one repository to several jobs.
+ *
+ * Functionality:
+ * - Shows how many jobs are selected, with an action to clear the selection.
+ * - Provides a single repository URL field, validated like the card forms.
+ * - Checks the repository once before the batch, like the card forms: the
+ *   first submit shows its summary (or the problem found) and the second
+ *   one submits it to every selected job at once.
+ * - Lists the outcome of every job of the batch (successes, queued while
+ *   offline and failures with their error), with a retry action per failed
+ *   job and one for all of them.
+ *
+ * Features:
+ * - The submissions themselves are handled by useBatchApply; this component
+ *   only keeps the URL being typed, its validation error (useForm) and the
+ *   pre-flight check of the repository.
+ *
+ * @param props - BatchApplyPanelProps with the selection, batch state and handlers.
+ * @returns Element with the batch form and the per-job results.
+ */
+const BatchApplyPanel: React.FC<BatchApplyPanelProps> = ({
+  selectedJobs,
+  batch,
+  onSubmit,
+  onRetry,
+  onClearSelection,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [preflight, setPreflight] = useState<RepositoryPreflight | null>(null);
+  const preflightControllerRef = useRef<AbortController | null>(null);
+
+  // A check in flight is dropped with the panel
+  useEffect(() => () => preflightControllerRef.current?.abort(), []);
+
+  /**
+   * Runs the pre-flight check of the repository, once for the whole batch.
+   *
+   * A passed check is kept with the summary of the repository, and a failed
+   * check is kept as "unavailable" so the batch can be submitted anyway.
+   * The check is aborted if the URL changes meanwhile.
+   *
+   * @param repository - Repository parsed from the URL.
+   * @param url - Canonical URL of the repository.
+   * @returns Translation key of the problem found, or null if there's none.
+   */
+  const checkRepository = async (
+    repository: RepositoryRef,
+    url: string,
+  ): Promise<TranslationKey | null> => {
+    preflightControllerRef.current?.abort();
+    const controller = new AbortController();
+    preflightControllerRef.current = controller;
+    setPreflight({ status: "checking", url });
+
+    try {
+      const inspection = await RepositoryInspectionService.inspect(
+        repository,
+        controller.signal,
+      );
+
+      if (controller.signal.aborted) {
+        return null;
+      }
+
+      if (!inspection.ok) {
+        setPreflight(null);
+        return REPOSITORY_INSPECTION_PROBLEM_TRANSLATION_KEYS[
+          inspection.problem
+        ];
+      }
+
+      setPreflight({ status: "passed", url, summary: inspection.summary });
+    } catch (err) {
+      if (!isAbortError(err) && !controller.signal.aborted) {
+        setPreflight({ status: "unavailable", url });
+      }
+    }
+
+    return null;
+  };
+
+  /**
+   * Repository URL field, validated like the card forms.
+   * Once valid, the repository is checked (unless it already was) and then
+   * its canonical form is submitted to every selected job.
+   */
+  const {
+    values,
+    errors,
+    isSubmitting,
+    handleSubmit,
+    getFieldProps,
+    setValue,
+  } = useForm({
+    initialValues: BATCH_APPLY_FORM_INITIAL_VALUES,
+    rules: BATCH_APPLY_FORM_RULES,
+    onSubmit: async ({ repoUrl }: BatchApplyFormValues, { setFieldError }) => {
+      const parsedUrl = parseRepositoryUrl(repoUrl);
+      if (!parsedUrl.ok) {
+        return;
+      }
+
+      const needsPreflight =
+        RepositoryInspectionService.isEnabled() &&
+        (preflight?.url !== parsedUrl.canonicalUrl ||
+          preflight.status === "checking");
+
+      if (needsPreflight) {
+        setFieldError(
+          "repoUrl",
+          await checkRepository(parsedUrl.repository, parsedUrl.canonicalUrl),
+        );
+        return;
+      }
+
+      setPreflight(null);
+      onSubmit(parsedUrl.canonicalUrl);
+    },
+  });
+  const error = errors.repoUrl;
+
+  /**
+   * Updates the URL, dropping the check of the previous one.
+   *
+   * @param url - New URL entered by the user.
+   */
+  const handleRepoUrlChange = (url: string): void => {
+    preflightControllerRef.current?.abort();
+    setPreflight(null);
+    setValue("repoUrl", url);
+  };
+
+  /**
+   * Gets the text of the submit button for the current step.
+   *
+   * @returns Translated text: checking, submitting, confirming or applying.
+   */
+  const getSubmitButtonText = (): string => {
+    if (preflight?.status === "checking") {
+      return t("checkingRepository");
+    }
+
+    if (isRunning) {
+      return t("submitting");
+    }
+
+    return t(preflight ? "confirmSubmission" : "applyToSelected");
+  };
+
+  const { results, isRunning } = batch;
+  const succeeded = results.filter(({ status }) => status === "success").length;
+  const failed = results.filter(({ status }) => status === "failed").length;
+
+  return (
+    <section className="batch-apply" aria-labelledby="batch-apply-title">
+      <div className="batch-apply-header">
+        <h2 id="batch-apply-title" className="batch-apply-title">
+          {t("batchApplyTitle")}
+        </h2>
+        <button
+          type="button"
+          className="batch-apply-secondary"
+          onClick={onClose}
+          disabled={isRunning}
+        >
+          {t("exitSelection")}
+        </button>
+      </div>
+
+      <div className="batch-apply-selection">
+        <span role="status" aria-live="polite">
+          {t("selectedPositions", { count: selectedJobs.length })}
+        </span>
+        {selectedJobs.length > 0 && (
+          <button
+            type="button"
+            className="batch-apply-link"
+            onClick={onClearSelection}
+            disabled={isRunning}
+          >
+            {t("clearSelection")}
+          </button>
+        )}
+      </div>
+
+      <form className="batch-apply-form" onSubmit={handleSubmit} noValidate>
+        <label htmlFor="batch-repo" className="batch-apply-label">
+          {t("repositoryUrl")}
+        </label>
+        <div className="batch-apply-row">
+          <input
+            id="batch-repo"
+            type="url"
+            className="batch-apply-input"
+            placeholder={getRepositoryUrlPlaceholder()}
+            {...getFieldProps("repoUrl")}
+            onChange={(e) => handleRepoUrlChange(e.target.value)}
+            disabled={isRunning || isSubmitting}
+            aria-describedby={error ? "batch-repo-error" : undefined}
+          />
+          <button
+            type="submit"
+            className="batch-apply-submit"
+            disabled={
+              isRunning ||
+              isSubmitting ||
+              selectedJobs.length === 0 ||
+              !values.repoUrl.trim()
+            }
+            aria-busy={isRunning}
+          >
+            {getSubmitButtonText()}
+          </button>
+        </div>
+        <RepositoryHostBadge repoUrl={values.repoUrl} />
+        {preflight && !isRunning && (
+          <RepositoryPreflightSummary preflight={preflight} />
+        )}
+        {error && (
+          <div id="batch-repo-error" className="batch-apply-error" role="alert">
+            {t(error)}
+          </div>
+        )}
+      </form>
+
+      {results.length > 0 && (
+        <div className="batch-apply-results">
+          <div className="batch-apply-summary">
+            <p role="status" aria-live="polite">
+              {t("batchSummary", {
+                succeeded,
+                failed,
+                total: results.length,
+              })}
+            </p>
+            {failed > 0 && (
+              <button
+                type="button"
+                className="batch-apply-secondary"
+                onClick={() => onRetry()}
+                disabled={isRunning}
+              >
+                {t("retryFailed")}
+              </button>
+            )}
+          </div>
+
+          <ul className="batch-apply-list">
+            {results.map((result) => (
+              <li key={result.jobId} className="batch-apply-item">
+                <div className="batch-apply-item-main">
+                  <span className="batch-apply-item-title">
+                    {result.jobTitle}
+                  </span>
+                  <span
+                    className={`batch-apply-status batch-apply-status-${result.status}`}
+                  >
+                    {t(BATCH_APPLY_STATUS_TRANSLATION_KEYS[result.status])}
+                  </span>
+                </div>
+
+                {result.status === "failed" && (
+                  <div className="batch-apply-item-error">
+                    <span>
+                      {result.error && t(result.error)}
+                      {result.errorReference &&
+                        ` ${t("errorReference", { id: result.errorReference })}`}
+                    </span>
+                    <button
+                      type="button"
+                      className="batch-apply-link"
+                      onClick={() => onRetry(result.jobId)}
+                      disabled={isRunning}
+                    >
+                      {t("retry")}
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BatchApplyPanel;
@@ -0,0 +1,287 @@
+import React, { useState } from "react";
+import type { Candidate, Job } from "@/models";
+import {
+  EMPLOYMENT_TYPE_TRANSLATION_KEYS,
+  MAX_COMPARED_JOBS,
+  REMOTE_POLICY_TRANSLATION_KEYS,
+  SENIORITY_TRANSLATION_KEYS,
+} from "@/constants";
+import type { TranslationKey } from "@/constants";
+import { buildJobPath } from "@/constants/routes.constants";
+import { formatDate } from "@/utils";
+import { useLanguage, useSalaryFormatter, useTranslation } from "@/hooks";
+import ApplicationForm from "../applicationForm/ApplicationForm";
+import Link from "../../router/Link";
+import "./JobComparisonDrawer.css";
+
+/**
+ * Props for the JobComparisonDrawer component.
+ *
+ * @property jobs - Jobs pinned to the comparison, in the order they were pinned.
+ * @property candidate - Candidate who applies from the columns.
+ * @property onRemove - Unpins a job from the comparison.
+ * @property onClear - Unpins every job.
+ */
+interface JobComparisonDrawerProps {
+  jobs: Job[];
+  candidate: Candidate;
+  onRemove: (jobId: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Attribute compared in one row of the table.
+ *
+ * @property label - Translation key of the row header.
+ * @property getValue - Text of the attribute for a job, null when the job doesn't provide it.
+ */
+interface ComparisonRow {
+  label: TranslationKey;
+  getValue: (job: Job) => string | null;
+}
+
+/**
+ * JobComparisonDrawer
+ *
+ * Drawer fixed to the bottom of the jobs page that compares the pinned jobs
+ * side by side, one column per job (up to MAX_COMPARED_JOBS).
+ *
+ * Functionality:
+ * - Collapsed, it only shows how many jobs are pinned and a toggle to open it.
+ * - Open, it shows a table with the attributes of every job: location, work
+ *   mode, seniority, employment type, salary, posted date and skills.
+ * - Highlights the rows whose value differs between the jobs, and the skills
+ *   that not every job asks for.
+ * - Each column has a link to the job detail page, an action to unpin the
+ *   job and the application form of the job, to apply directly from the
+ *   comparison.
+ *
+ * Features:
+ * - The application forms share their state with the job cards through the
+ *   application form store, so a URL typed in either place shows in both.
+ * - Missing attributes are shown as a dash; a job that omits an attribute
+ *   other jobs provide also counts as a difference.
+ *
+ * @param props - JobComparisonDrawerProps with the pinned jobs and handlers.
+ * @returns Element with the drawer, or null when no job is pinned.
+ */
+const JobComparisonDrawer: React.FC<JobComparisonDrawerProps> = ({
+  jobs,
+  candidate,
+  onRemove,
+  onClear,
+}) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const formatSalary = useSalaryFormatter();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const rows: ComparisonRow[] = [
+    { label: "comparisonLocation", getValue: (job) => job.location ?? null },
+    {
+      label: "filterRemotePolicy",
+      getValue: (job) =>
+        job.remotePolicy
+          ? t(REMOTE_POLICY_TRANSLATION_KEYS[job.remotePolicy])
+          : null,
+    },
+    {
+      label: "filterSeniority",
+      getValue: (job) =>
+        job.seniority ? t(SENIORITY_TRANSLATION_KEYS[job.seniority]) : null,
+    },
+    {
+      label: "filterEmploymentType",
+      getValue: (job) =>
+        job.employmentType
+          ? t(EMPLOYMENT_TYPE_TRANSLATION_KEYS[job.employmentType])
+          : null,
+    },
+    {
+      label: "comparisonSalary",
+      getValue: (job) => (job.salary ? formatSalary(job.salary) : null),
+    },
+    {
+      label: "comparisonPosted",
+      getValue: (job) =>
+        job.postedAt ? formatDate(job.postedAt, language) : null,
+    },
+  ];
+
+  /**
+   * Whether the given values aren't all the same.
+   * A single job has nothing to be compared with.
+   *
+   * @param values - Value of the attribute for every job.
+   * @returns true if at least two values differ.
+   */
+  const differ = (values: unknown[]): boolean =>
+    jobs.length > 1 && new Set(values).size > 1;
+
+  /**
+   * Skills every pinned job asks for; the rest are highlighted.
+   */
+  const sharedTags = new Set(
+    jobs[0].tags.filter((tag) => jobs.every((job) => job.tags.includes(tag))),
+  );
+
+  const tagsDiffer = differ(jobs.map((job) => [...job.tags].sort().join("\n")));
+
+  /**
+   * Renders the badge that marks a row whose values differ, so the
+   * difference isn't conveyed by the highlight color alone.
+   *
+   * @returns Element with the "differs" badge.
+   */
+  const renderDiffersBadge = (): React.ReactElement => (
+    <span className="job-comparison-differs">{t("comparisonDiffers")}</span>
+  );
+
+  /**
+   * Renders a row of the table with the value of an attribute for every job.
+   *
+   * @param row - Attribute to render.
+   * @returns Table row, highlighted when the values differ.
+   */
+  const renderRow = ({
+    label,
+    getValue,
+  }: ComparisonRow): React.ReactElement => {
+    const values = jobs.map(getValue);
+    const isDifferent = differ(values);
+
+    return (
+      <tr
+        key={label}
+        className={isDifferent ? "job-comparison-row-different" : undefined}
+      >
+        <th scope="row">
+          {t(label)}
+          {isDifferent && renderDiffersBadge()}
+        </th>
+        {values.map((value, index) => (
+          <td key={jobs[index].id}>{value ?? "—"}</td>
+        ))}
+      </tr>
+    );
+  };
+
+  return (
+    <aside className="job-comparison" aria-labelledby="job-comparison-title">
+      <div className="job-comparison-bar">
+        <button
+          type="button"
+          id="job-comparison-title"
+          className="job-comparison-toggle"
+          aria-expanded={isOpen}
+          aria-controls="job-comparison-content"
+          onClick={() => setIsOpen((prev) => !prev)}
+        >
+          {t("comparePositions", {
+            count: jobs.length,
+            max: MAX_COMPARED_JOBS,
+          })}
+          <span className="job-comparison-chevron" aria-hidden="true" />
+        </button>
+        <button type="button" className="job-comparison-link" onClick={onClear}>
+          {t("clearComparison")}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div id="job-comparison-content" className="job-comparison-content">
+          {jobs.length > 1 && (
+            <p className="job-comparison-legend">{t("comparisonLegend")}</p>
+          )}
+
+          <div className="job-comparison-scroll">
+            <table className="job-comparison-table">
+              <thead>
+                <tr>
+                  <td />
+                  {jobs.map((job) => (
+                    <th key={job.id} scope="col">
+                      <div className="job-comparison-heading">
+                        <Link
+                          to={buildJobPath(job.id)}
+                          className="job-comparison-title"
+                        >
+                          {job.title}
+                        </Link>
+                        <button
+                          type="button"
+                          className="job-comparison-remove"
+                          aria-label={t("removeFromComparison", {
+                            title: job.title,
+                          })}
+                          title={t("removeFromComparison", {
+                            title: job.title,
+                          })}
+                          onClick={() => onRemove(job.id)}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+
+              <tbody>
+                {rows.map(renderRow)}
+
+                <tr
+                  className={
+                    tagsDiffer ? "job-comparison-row-different" : undefined
+                  }
+                >
+                  <th scope="row">
+                    {t("jobTags")}
+                    {tagsDiffer && renderDiffersBadge()}
+                  </th>
+                  {jobs.map((job) => (
+                    <td key={job.id}>
+                      {job.tags.length > 0 ? (
+                        <ul className="job-comparison-tags">
+                          {job.tags.map((tag) => (
+                            <li
+                              key={tag}
+                              className={`job-comparison-tag ${
+                                jobs.length > 1 && !sharedTags.has(tag)
+                                  ? "job-comparison-tag-different"
+                                  : ""
+                              }`}
+                            >
+                              {tag}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                  ))}
+                </tr>
+
+                <tr>
+                  <th scope="row">{t("comparisonApply")}</th>
+                  {jobs.map((job) => (
+                    <td key={job.id} className="job-comparison-apply">
+                      <ApplicationForm job={job} candidate={candidate} />
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default JobComparisonDrawer;
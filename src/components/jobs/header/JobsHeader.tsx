@@ -2,29 +2,78 @@ import React from "react";
 import { useTranslation } from "@/hooks";
 import "./JobsHeader.css";
 
+/**
+ * Props for the JobsHeader component.
+ *
+ * @property onRefresh - Optional handler that reloads the jobs list. The refresh button is hidden when omitted.
+ * @property isRefreshing - Whether a refresh is in progress (disables and animates the button).
+ */
+interface JobsHeaderProps {
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
 /**
  * JobsHeader
- * 
+ *
  * Presentation component that renders the header of the available jobs page.
- * 
+ *
  * Functionality:
  * - Displays the main section title using i18n translations.
  * - Presents a descriptive subtitle that explains to the user how to apply to positions.
  * - Supports multiple languages through the useTranslation hook.
- * 
+ * - Optionally renders a refresh button to reload the jobs list by hand.
+ *
  * Features:
  * - Stateless component optimized for rendering.
  * - Uses semantic HTML elements (header, h1, p) for better accessibility.
  * - Animations and visual styles are handled via external CSS.
- * 
+ *
+ * @param props - JobsHeaderProps with the optional refresh handler and state.
  * @returns Header element with translated title and subtitle.
  */
-const JobsHeader: React.FC = () => {
+const JobsHeader: React.FC<JobsHeaderProps> = ({
+  onRefresh,
+  isRefreshing = false,
+}) => {
   const { t } = useTranslation();
 
   return (
     <header className="jobs-header" role="banner">
-      <h1 className="jobs-title">{t("availablePositions")}</h1>
+      <div className="jobs-header-top">
+        <h1 className="jobs-title">{t("availablePositions")}</h1>
+
+        {onRefresh && (
+          <button
+            type="button"
+            className={`jobs-refresh-button ${isRefreshing ? "jobs-refresh-button-active" : ""}`}
+            onClick={onRefresh}
+            disabled={isRefreshing}
+            aria-busy={isRefreshing}
+            aria-label={t(isRefreshing ? "refreshing" : "refresh")}
+            title={t(isRefreshing ? "refreshing" : "refresh")}
+          >
+            <svg
+              className="jobs-refresh-icon"
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              aria-hidden="true"
+            >
+              <polyline points="23 4 23 10 17 10" />
+              <polyline points="1 20 1 14 7 14" />
+              <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15" />
+            </svg>
+            <span>{t(isRefreshing ? "refreshing" : "refresh")}</span>
+          </button>
+        )}
+      </div>
       <p className="jobs-subtitle">{t("applyToPositions")}</p>
     </header>
   );
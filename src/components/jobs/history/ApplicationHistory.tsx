@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import type { ApplicationRecord } from "@/models";
+import { APPLICATION_STATUS_TRANSLATION_KEYS, ROUTES } from "@/constants";
+import { formatDate } from "@/utils";
+import { useLanguage, useTranslation } from "@/hooks";
+import Link from "../../router/Link";
+import "./ApplicationHistory.css";
+
+/**
+ * Props for the ApplicationHistory component.
+ *
+ * @property records - Applications sent by the candidate, newest first.
+ * @property collapsible - Shows the list behind a toggle (jobs page) instead
+ *   of always open (My applications page).
+ */
+interface ApplicationHistoryProps {
+  records: ApplicationRecord[];
+  collapsible?: boolean;
+}
+
+/**
+ * ApplicationHistory
+ *
+ * "My applications" list, shown as a collapsible panel below the candidate
+ * information card and as the content of the My applications page.
+ *
+ * Functionality:
+ * - Shows how many applications the candidate has sent, with a toggle that
+ *   expands the full list and a link to the My applications page.
+ * - Lists each application with its job, the repository sent, the date and
+ *   the status reported by the server.
+ * - Shows an empty message before the first application.
+ *
+ * Features:
+ * - Stateless apart from the toggle: the records come from the application
+ *   history (see useApplicationHistory), persisted across sessions.
+ * - Jobs are identified by the title they had when applied to, falling back
+ *   to the job ID for applications recorded without it.
+ *
+ * @param props - ApplicationHistoryProps with the candidate's applications.
+ * @returns Element with the collapsible list of applications.
+ */
+const ApplicationHistory: React.FC<ApplicationHistoryProps> = ({
+  records,
+  collapsible = true,
+}) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isExpanded = !collapsible || isOpen;
+
+  const listId = "application-history-list";
+
+  return (
+    <section
+      className="application-history"
+      aria-labelledby="application-history-title"
+    >
+      {collapsible ? (
+        <button
+          type="button"
+          className="application-history-toggle"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          onClick={() => setIsOpen((prev) => !prev)}
+        >
+          <span
+            id="application-history-title"
+            className="application-history-title"
+          >
+            {t("myApplications")}
+          </span>
+          <span className="application-history-count">{records.length}</span>
+          <span className="application-history-chevron" aria-hidden="true" />
+        </button>
+      ) : (
+        <h2 className="application-history-toggle">
+          <span
+            id="application-history-title"
+            className="application-history-title"
+          >
+            {t("myApplications")}
+          </span>
+          <span className="application-history-count">{records.length}</span>
+        </h2>
+      )}
+
+      {isExpanded && (
+        <div id={listId} className="application-history-content">
+          {records.length === 0 ? (
+            <p className="application-history-empty">{t("noApplications")}</p>
+          ) : (
+            <ul
+              className={`application-history-list ${collapsible ? "" : "application-history-list-full"}`}
+            >
+              {records.map((record) => (
+                <li key={record.uuid} className="application-history-item">
+                  <div className="application-history-job">
+                    <span className="application-history-job-title">
+                      {record.jobTitle ?? `${t("jobId")}: ${record.jobId}`}
+                    </span>
+                    <span
+                      className={`application-status application-status-${record.status}`}
+                    >
+                      {t(APPLICATION_STATUS_TRANSLATION_KEYS[record.status])}
+                    </span>
+                  </div>
+                  <a
+                    className="application-history-repo"
+                    href={record.repoUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    {record.repoUrl}
+                  </a>
+                  <time
+                    className="application-history-date"
+                    dateTime={record.appliedAt}
+                  >
+                    {t("appliedOn", {
+                      date: formatDate(record.appliedAt, language),
+                    })}
+                  </time>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {collapsible && (
+            <Link to={ROUTES.APPLICATIONS} className="application-history-link">
+              {t("viewAllApplications")}
+            </Link>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ApplicationHistory;
@@ -23,6 +23,7 @@ const STICKY_CONFIG = {
  * Functionality:
  * - Displays the candidate's avatar with initials generated from their full name.
  * - Presents the candidate's full name and email.
+ * - Shows how many jobs the candidate saved.
  * - Includes a logout button that triggers the onLogout callback.
  * - Implements sticky behavior: when the user scrolls down, the card sticks
  *   to the top of the viewport to keep the candidate's information always visible.
@@ -37,6 +38,7 @@ const STICKY_CONFIG = {
  */
 const CandidateInfoCard: React.FC<CandidateInfoCardProps> = ({
   candidate,
+  savedCount,
   onLogout,
 }) => {
   const { firstName, lastName, email } = candidate;
@@ -151,6 +153,10 @@ const CandidateInfoCard: React.FC<CandidateInfoCardProps> = ({
           <div className="candidate-email">{email}</div>
         </div>
 
+        <span className="candidate-saved-count">
+          {t("savedJobsCount", { count: savedCount })}
+        </span>
+
         <button
           type="button"
           className="logout-button"
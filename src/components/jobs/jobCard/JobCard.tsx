@@ -1,31 +1,41 @@
-import React, { useState, useCallback } from "react";
-import { JobService } from "@/services";
-import type { Job, Candidate } from "@/models";
-import { isError, isValidGitHubUrl } from "@/utils";
-import { errors } from "@/constants/error.constants";
-import { $Default } from "@/constants/defualt.constants";
-import { useTranslation } from "@/hooks";
+import React from "react";
+import type { Job, Candidate, ApplicationRecord } from "@/models";
+import { formatDate } from "@/utils";
+import { MAX_COMPARED_JOBS } from "@/constants";
+import { buildJobPath } from "@/constants/routes.constants";
+import {
+  useApplicationForm,
+  useApplicationHistory,
+  useLanguage,
+  useSavedJobs,
+  useTranslation,
+} from "@/hooks";
+import JobDetails from "../jobDetails/JobDetails";
+import ApplicationForm from "../applicationForm/ApplicationForm";
+import Link from "../../router/Link";
 import "./JobCard.css";
 
 /**
  * Props for the JobCard component.
  *
- * @property job - Information about the available job (id, title, description).
+ * @property job - Information about the available job (id, title and optional details).
  * @property candidate - Data of the candidate who is applying (uuid, candidateId).
+ * @property detailed - Shows every detail of the job without a toggle (job detail page).
+ * @property selected - Whether the job is selected for a batch application.
+ * @property onSelectedChange - Handler of the selection checkbox, shown only when provided.
+ * @property compared - Whether the job is pinned to the comparison drawer.
+ * @property compareDisabled - Whether the comparison is full, so the job can't be pinned.
+ * @property onComparedChange - Handler of the compare toggle, shown only when provided.
  */
 interface JobCardProps {
   job: Job;
   candidate: Candidate;
-}
-
-/**
- * Possible states of the job application.
- */
-interface ApplicationState {
-  repoUrl: string;
-  isSubmitting: boolean;
-  error: string;
-  isSuccess: boolean;
+  detailed?: boolean;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+  compared?: boolean;
+  compareDisabled?: boolean;
+  onComparedChange?: (compared: boolean) => void;
 }
 
 /**
@@ -34,251 +44,162 @@ interface ApplicationState {
  * Component that represents an individual job offer card.
  *
  * Functionality:
- * - Displays job information (title and ID).
- * - Provides a form for the candidate to enter their GitHub repository URL.
- * - Validates the repository URL before submitting it.
- * - Sends the application to the API when the form is valid.
- * - Manages loading, error, and success states independently.
- * - Automatically clears the form after a successful application.
- *
- * Validations:
- * - The URL cannot be empty.
- * - The URL must be a valid GitHub repository.
- * - The format is validated using the isValidGitHubUrl utility.
- *
- * States:
- * - repoUrl: URL entered by the user.
- * - isSubmitting: Indicates whether a request is in progress.
- * - error: Error message to display.
- * - isSuccess: Indicates whether the application was successful.
+ * - Displays the job title and its details (summary, expandable description and tags).
+ *   In the list, the title links to the job detail page, which renders the
+ *   card with every detail visible (detailed).
+ * - In the multi-select mode of the list, shows a checkbox to include the
+ *   job in a batch application.
+ * - Lets the candidate save the job to come back to it later (star toggle).
+ * - Shows an "Applied on …" badge with the repository sent when the candidate
+ *   already applied to the job (from the application history).
+ * - Lets the candidate pin the job to the comparison drawer of the list.
+ * - Renders the application form of the job (ApplicationForm), whose state
+ *   lives in the application form store, so the URL, messages and a
+ *   submission in flight survive the card scrolling out of the virtualized list.
+ * - Keeps the expanded state of the details in the same store.
  *
  * @param props - JobCardProps with the job and candidate information.
  * @returns React element that renders the job card with its form.
  */
-const JobCard: React.FC<JobCardProps> = ({ job, candidate }) => {
+const JobCard: React.FC<JobCardProps> = ({
+  job,
+  candidate,
+  detailed = false,
+  selected = false,
+  onSelectedChange,
+  compared = false,
+  compareDisabled = false,
+  onComparedChange,
+}) => {
   const { t } = useTranslation();
-
-  const [state, setState] = useState<ApplicationState>({
-    repoUrl: $Default.EMPTY_STRING,
-    isSubmitting: false,
-    error: $Default.EMPTY_STRING,
-    isSuccess: false,
-  });
-
-  /**
-   * Updates the application state partially.
-   *
-   * @param updates - Object with the state properties to update.
-   */
-  const updateState = useCallback(
-    (updates: Partial<ApplicationState>): void => {
-      setState((prevState) => ({ ...prevState, ...updates }));
-    },
-    [],
-  );
-
-  /**
-   * Resets error and success messages when the user modifies the URL.
-   * Maintains a clean user experience by removing outdated feedback.
-   */
-  const clearMessages = useCallback((): void => {
-    updateState({
-      error: $Default.EMPTY_STRING,
-      isSuccess: false,
-    });
-  }, [updateState]);
-
-  /**
-   * Handler for changes in the repository URL input.
-   *
-   * Updates the state with the new URL and clears any previous error or success messages.
-   * This provides immediate and clean feedback when the user corrects errors.
-   *
-   * @param url - New URL entered by the user.
-   */
-  const handleRepoUrlChange = useCallback(
-    (url: string): void => {
-      updateState({ repoUrl: url });
-      clearMessages();
-    },
-    [updateState, clearMessages],
-  );
-
-  /**
-   * Validates the repository URL entered by the user.
-   *
-   * Performs two levels of validation:
-   * 1. Verifies that the URL is not empty after removing spaces.
-   * 2. Validates that it is a valid GitHub URL using isValidGitHubUrl.
-   *
-   * @param url - Repository URL to validate.
-   * @returns Object with the validation state and error message if applicable.
-   */
-  const validateRepositoryUrl = useCallback(
-    (url: string): { isValid: boolean; errorMessage: string } => {
-      const trimmedUrl = url.trim();
-
-      if (!trimmedUrl) {
-        return {
-          isValid: false,
-          errorMessage: errors.INVALID_GITHUB_URL,
-        };
-      }
-
-      const { valid, message } = isValidGitHubUrl(trimmedUrl);
-
-      return {
-        isValid: valid,
-        errorMessage: valid ? $Default.EMPTY_STRING : message,
-      };
-    },
-    [],
-  );
+  const { language } = useLanguage();
+  const history = useApplicationHistory(candidate.candidateId);
+  const { isSaved, toggleSaved } = useSavedJobs(candidate.candidateId);
+  const saved = isSaved(job.id);
 
   /**
-   * Sends the candidate's application to the API.
-   *
-   * Builds the payload with the candidate and job information,
-   * then makes the request to the service. If the response is successful,
-   * updates the state to show the success message and clears the form.
-   *
-   * @param url - Validated repository URL.
-   * @throws Error if the request fails.
+   * Latest application of this candidate to this job, if any.
    */
-  const submitApplication = useCallback(
-    async (url: string): Promise<void> => {
-      const payload = {
-        uuid: candidate.uuid,
-        jobId: job.id,
-        candidateId: candidate.candidateId,
-        applicationId: candidate.applicationId,
-        repoUrl: url,
-      };
-
-      const result = await JobService.applyToJob(payload);
-
-      if (result.ok) {
-        updateState({
-          isSuccess: true,
-          repoUrl: $Default.EMPTY_STRING,
-          error: $Default.EMPTY_STRING,
-        });
-      }
-    },
-    [candidate, job, updateState],
+  const lastApplication: ApplicationRecord | undefined = history.find(
+    (record) => record.jobId === job.id,
   );
 
   /**
-   * Main handler for form submission.
-   *
-   * Execution flow:
-   * 1. Prevents the default form behavior.
-   * 2. Validates the repository URL.
-   * 3. If validation fails, displays the error and stops the flow.
-   * 4. If validation passes, activates loading state and sends the application.
-   * 5. Handles API errors and displays them to the user.
-   * 6. Finalizes the loading state regardless of the result.
-   *
-   * @param e - Form event.
+   * Expanded state of the details, kept in the application form store while
+   * the card is unmounted.
    */
-  const handleSubmit = useCallback(
-    async (e: React.FormEvent): Promise<void> => {
-      e.preventDefault();
-
-      const { isValid, errorMessage } = validateRepositoryUrl(state.repoUrl);
-
-      if (!isValid) {
-        updateState({ error: errorMessage });
-        return;
-      }
-
-      updateState({ isSubmitting: true, error: $Default.EMPTY_STRING });
-
-      try {
-        await submitApplication(state.repoUrl.trim());
-      } catch (err) {
-        const errorMsg = isError(err) ? err.message : errors.APPLICATION_FAILED;
-        updateState({ error: errorMsg });
-      } finally {
-        updateState({ isSubmitting: false });
-      }
-    },
-    [state.repoUrl, validateRepositoryUrl, submitApplication, updateState],
+  const { state, updateState } = useApplicationForm(
+    candidate.candidateId,
+    job.id,
   );
 
   /**
-   * Determines whether the submit button should be disabled.
+   * Renders the badge of the latest application to this job.
    *
-   * @returns true if submitting or the URL is empty.
+   * @returns Element with the application date and repository, or null if the candidate hasn't applied.
    */
-  const isSubmitDisabled = (): boolean => {
-    return state.isSubmitting || !state.repoUrl.trim();
-  };
-
-  /**
-   * Gets the submit button text based on the current state.
-   *
-   * @returns Translated text for the button.
-   */
-  const getSubmitButtonText = (): string => {
-    return state.isSubmitting ? t("submitting") : t("submitApplication");
+  const renderAppliedBadge = (): React.ReactElement | null => {
+    if (!lastApplication) {
+      return null;
+    }
+
+    return (
+      <p className="applied-badge">
+        <span className="applied-badge-date">
+          {t("appliedOn", {
+            date: formatDate(lastApplication.appliedAt, language),
+          })}
+        </span>
+        <a
+          className="applied-badge-repo"
+          href={lastApplication.repoUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {lastApplication.repoUrl}
+        </a>
+      </p>
+    );
   };
 
   return (
-    <article className="job-card" aria-labelledby={`job-title-${job.id}`}>
+    <article
+      className={`job-card ${selected ? "job-card-selected" : ""}`}
+      aria-labelledby={`job-title-${job.id}`}>
       <header className="job-header">
-        <h3 id={`job-title-${job.id}`} className="job-title">
-          {job.title}
-        </h3>
-        <p className="job-id" aria-label={`${t("jobId")}: ${job.id}`}>
-          {t("jobId")}: {job.id}
-        </p>
-      </header>
-
-      <form className="job-form" onSubmit={handleSubmit} noValidate>
-        <div className="repo-input-group">
-          <label htmlFor={`repo-${job.id}`} className="repo-label">
-            {t("githubRepoUrl")}
-          </label>
-          <input
-            id={`repo-${job.id}`}
-            type="url"
-            className="repo-input"
-            placeholder={$Default.GITHUB}
-            value={state.repoUrl}
-            onChange={(e) => handleRepoUrlChange(e.target.value)}
-            disabled={state.isSubmitting}
-            aria-invalid={!!state.error}
-            aria-describedby={state.error ? `error-${job.id}` : undefined}
-          />
-        </div>
-
-        {state.error && (
-          <div
-            id={`error-${job.id}`}
-            className="error-message"
-            role="alert"
-            aria-live="polite"
+        <div className="job-title-row">
+          {onSelectedChange && (
+            <input
+              type="checkbox"
+              className="job-select-checkbox"
+              checked={selected}
+              onChange={(e) => onSelectedChange(e.target.checked)}
+              aria-label={t("selectPosition", { title: job.title })}
+            />
+          )}
+          <h3 id={`job-title-${job.id}`} className="job-title">
+            {detailed ? (
+              job.title
+            ) : (
+              <Link to={buildJobPath(job.id)} className="job-title-link">
+                {job.title}
+              </Link>
+            )}
+          </h3>
+          <button
+            type="button"
+            className="save-job-button"
+            aria-pressed={saved}
+            aria-label={t(saved ? "unsaveJob" : "saveJob")}
+            title={t(saved ? "unsaveJob" : "saveJob")}
+            onClick={() => toggleSaved(job.id)}
           >
-            {state.error}
-          </div>
-        )}
-
-        {state.isSuccess && (
-          <div className="success-message" role="status" aria-live="polite">
-            {t("applicationSuccess")}
-          </div>
-        )}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill={saved ? "currentColor" : "none"}
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              aria-hidden="true"
+            >
+              <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
+            </svg>
+          </button>
+          {onComparedChange && (
+            <button
+              type="button"
+              className="compare-job-button"
+              aria-pressed={compared}
+              title={
+                compareDisabled && !compared
+                  ? t("comparisonFull", { max: MAX_COMPARED_JOBS })
+                  : undefined
+              }
+              onClick={() => onComparedChange(!compared)}
+              disabled={compareDisabled && !compared}
+            >
+              {t(compared ? "comparing" : "compareJob")}
+            </button>
+          )}
+        </div>
+        {renderAppliedBadge()}
+      </header>
 
-        <button
-          type="submit"
-          className="submit-button"
-          disabled={isSubmitDisabled()}
-          aria-busy={state.isSubmitting}
-        >
-          {getSubmitButtonText()}
-        </button>
-      </form>
+      <JobDetails
+        job={job}
+        isExpanded={detailed || state.isExpanded}
+        onToggle={
+          detailed
+            ? undefined
+            : () => updateState({ isExpanded: !state.isExpanded })
+        }
+      />
+
+      <ApplicationForm job={job} candidate={candidate} />
     </article>
   );
 };
@@ -0,0 +1,146 @@
+import React from "react";
+import type { Job } from "@/models";
+import {
+  EMPLOYMENT_TYPE_TRANSLATION_KEYS,
+  REMOTE_POLICY_TRANSLATION_KEYS,
+  SENIORITY_TRANSLATION_KEYS,
+} from "@/constants";
+import { formatDate } from "@/utils";
+import { useLanguage, useSalaryFormatter, useTranslation } from "@/hooks";
+import "./JobDetails.css";
+
+/**
+ * Props for the JobDetails component.
+ *
+ * @property job - Job whose details are displayed.
+ * @property isExpanded - Whether the description, tags and job ID are shown.
+ * @property onToggle - Called when the candidate expands or collapses the details.
+ *   Without it the toggle is hidden and the details follow isExpanded.
+ */
+interface JobDetailsProps {
+  job: Job;
+  isExpanded: boolean;
+  onToggle?: () => void;
+}
+
+/**
+ * JobDetails
+ *
+ * Component that presents the information of a job inside its card.
+ *
+ * Functionality:
+ * - Always shows a summary: location, remote policy, seniority and
+ *   employment type as badges, followed by the salary range and posted date.
+ * - Provides a toggle that expands the description, the skill tags and the job ID.
+ *   The expanded state is controlled by the card, which keeps it while the
+ *   card is scrolled out of the virtualized list.
+ *
+ * Missing fields:
+ * - The backend may omit any field except id and title; each missing field
+ *   is simply left out, and the summary is not rendered when it's empty.
+ * - When there is no description or tags, the expanded section says so
+ *   instead of appearing broken.
+ *
+ * @param props - JobDetailsProps with the job to display.
+ * @returns React element that renders the job summary and its expandable details.
+ */
+const JobDetails: React.FC<JobDetailsProps> = ({
+  job,
+  isExpanded,
+  onToggle,
+}) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+
+  const detailsId = `job-details-${job.id}`;
+
+  const formatSalary = useSalaryFormatter();
+
+  const badges = [
+    job.location,
+    job.remotePolicy && t(REMOTE_POLICY_TRANSLATION_KEYS[job.remotePolicy]),
+    job.seniority && t(SENIORITY_TRANSLATION_KEYS[job.seniority]),
+    job.employmentType &&
+      t(EMPLOYMENT_TYPE_TRANSLATION_KEYS[job.employmentType]),
+  ].filter((badge): badge is string => !!badge);
+
+  const hasSummary = badges.length > 0 || !!job.salary || !!job.postedAt;
+  const hasDetails = !!job.description || job.tags.length > 0;
+
+  return (
+    <div className="job-details">
+      {hasSummary && (
+        <div className="job-summary">
+          {badges.length > 0 && (
+            <ul className="job-badges">
+              {badges.map((badge) => (
+                <li key={badge} className="job-badge">
+                  {badge}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {job.salary && (
+            <p className="job-salary">{formatSalary(job.salary)}</p>
+          )}
+
+          {job.postedAt && (
+            <p className="job-posted">
+              <time dateTime={job.postedAt}>
+                {t("postedOn", { date: formatDate(job.postedAt, language) })}
+              </time>
+            </p>
+          )}
+        </div>
+      )}
+
+      {onToggle && (
+        <button
+          type="button"
+          className="job-details-toggle"
+          aria-expanded={isExpanded}
+          aria-controls={detailsId}
+          onClick={onToggle}
+        >
+          {t(isExpanded ? "hideDetails" : "showDetails")}
+          <span className="job-details-chevron" aria-hidden="true" />
+        </button>
+      )}
+
+      {isExpanded && (
+        <div id={detailsId} className="job-details-content">
+          {job.description && (
+            <section>
+              <h4 className="job-details-heading">{t("jobDescription")}</h4>
+              <p className="job-description">{job.description}</p>
+            </section>
+          )}
+
+          {job.tags.length > 0 && (
+            <section>
+              <h4 className="job-details-heading">{t("jobTags")}</h4>
+              <ul className="job-tags">
+                {job.tags.map((tag) => (
+                  <li key={tag} className="job-tag">
+                    {tag}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {!hasDetails && (
+            <p className="job-details-empty">{t("noJobDetails")}</p>
+          )}
+
+          <p className="job-id">
+            {t("jobId")}: {job.id}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobDetails;
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo } from "react";
+import type { Candidate, Job } from "@/models";
+import { MAX_COMPARED_JOBS } from "@/constants";
+import {
+  VIRTUAL_ITEM_KEY_ATTRIBUTE,
+  useTranslation,
+  useVirtualList,
+} from "@/hooks";
+import JobCard from "../jobCard/JobCard";
+import "./JobsList.css";
+
+/**
+ * Props for the JobsList component.
+ *
+ * @property jobs - Jobs to display, already filtered and sorted.
+ * @property candidate - Candidate who applies to the jobs.
+ * @property hasMore - Whether the API has more pages of jobs.
+ * @property isLoadingMore - Whether the next page is being loaded.
+ * @property loadMoreFailed - Whether the last attempt to load the next page failed.
+ * @property onLoadMore - Handler that loads the next page.
+ * @property selectedJobIds - Jobs selected for a batch application.
+ * @property onToggleSelected - Selects or unselects a job; enables the multi-select mode when provided.
+ * @property comparedJobIds - Jobs pinned to the comparison drawer.
+ * @property onToggleCompared - Pins or unpins a job; shows the compare toggle of the cards when provided.
+ */
+interface JobsListProps {
+  jobs: Job[];
+  candidate: Candidate;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreFailed: boolean;
+  onLoadMore: () => void;
+  selectedJobIds?: ReadonlySet<string>;
+  onToggleSelected?: (jobId: string) => void;
+  comparedJobIds?: ReadonlySet<string>;
+  onToggleCompared?: (jobId: string) => void;
+}
+
+/**
+ * Height assumed for a card until it's measured, in pixels.
+ */
+const ESTIMATED_CARD_HEIGHT = 280;
+
+/**
+ * Space between cards in pixels, must match the gap of .jobs-list.
+ */
+const CARD_GAP = 20;
+
+/**
+ * Extra height rendered above and below the viewport, in pixels.
+ */
+const OVERSCAN = 800;
+
+/**
+ * JobsList
+ *
+ * Component that renders the jobs as a virtualized, paginated list.
+ *
+ * Functionality:
+ * - Only mounts the cards near the viewport (useVirtualList); the space of
+ *   the others is kept so the page scrolls as if every card were rendered.
+ * - Cards may have any height (e.g. expanded details): each one is measured
+ *   once rendered and its height is remembered.
+ * - Loads the next page automatically when the end of the list comes into view.
+ * - Shows a loading indicator while the next page loads, and a retry button
+ *   when it fails.
+ *
+ * Features:
+ * - The application form of each card lives in the application form store,
+ *   so unmounting a card that scrolls out of view doesn't lose its state.
+ *
+ * @param props - JobsListProps with the jobs, candidate and pagination state.
+ * @returns Element with the rendered cards and the pagination footer.
+ */
+const JobsList: React.FC<JobsListProps> = ({
+  jobs,
+  candidate,
+  hasMore,
+  isLoadingMore,
+  loadMoreFailed,
+  onLoadMore,
+  selectedJobIds,
+  onToggleSelected,
+  comparedJobIds,
+  onToggleCompared,
+}) => {
+  const { t } = useTranslation();
+
+  const isComparisonFull =
+    (comparedJobIds?.size ?? 0) >= MAX_COMPARED_JOBS;
+
+  const keys = useMemo(() => jobs.map((job) => job.id), [jobs]);
+
+  const { containerRef, start, end, paddingTop, paddingBottom } =
+    useVirtualList<HTMLDivElement>({
+      keys,
+      estimateSize: ESTIMATED_CARD_HEIGHT,
+      gap: CARD_GAP,
+      overscan: OVERSCAN,
+    });
+
+  const reachedEnd = end >= jobs.length;
+
+  /**
+   * Loads the next page once the last cards are rendered.
+   * A failed page is only retried from the button, to avoid a request loop.
+   */
+  useEffect(() => {
+    if (reachedEnd && hasMore && !isLoadingMore && !loadMoreFailed) {
+      onLoadMore();
+    }
+  }, [reachedEnd, hasMore, isLoadingMore, loadMoreFailed, onLoadMore]);
+
+  /**
+   * Renders the footer with the state of the next page.
+   *
+   * @returns Element with the loading or retry state, or null if there's nothing to show.
+   */
+  const renderFooter = (): React.ReactElement | null => {
+    if (isLoadingMore) {
+      return (
+        <div className="jobs-list-footer" role="status" aria-live="polite">
+          <span className="jobs-list-spinner" aria-hidden="true" />
+          {t("loadingMorePositions")}
+        </div>
+      );
+    }
+
+    if (loadMoreFailed && hasMore) {
+      return (
+        <div className="jobs-list-footer" role="alert">
+          {t("loadMoreFailed")}
+          <button
+            type="button"
+            className="jobs-list-retry"
+            onClick={onLoadMore}
+          >
+            {t("retry")}
+          </button>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        className="jobs-list"
+        role="list"
+        style={{ paddingTop, paddingBottom }}
+      >
+        {jobs.slice(start, end).map((job) => (
+          <div
+            key={job.id}
+            className="jobs-list-item"
+            role="listitem"
+            {...{ [VIRTUAL_ITEM_KEY_ATTRIBUTE]: job.id }}
+          >
+            <JobCard
+              job={job}
+              candidate={candidate}
+              selected={selectedJobIds?.has(job.id)}
+              onSelectedChange={
+                onToggleSelected && (() => onToggleSelected(job.id))
+              }
+              compared={comparedJobIds?.has(job.id)}
+              compareDisabled={isComparisonFull}
+              onComparedChange={
+                onToggleCompared && (() => onToggleCompared(job.id))
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      {renderFooter()}
+    </>
+  );
+};
+
+export default JobsList;
@@ -0,0 +1,100 @@
+import React from "react";
+import type { RepositoryPreflight } from "@/services";
+import { formatDate } from "@/utils";
+import { useLanguage, useTranslation } from "@/hooks";
+import "./RepositoryPreflightSummary.css";
+
+/**
+ * Props for the RepositoryPreflightSummary component.
+ *
+ * @property preflight - Pre-flight check of the repository about to be submitted.
+ */
+interface RepositoryPreflightSummaryProps {
+  preflight: RepositoryPreflight;
+}
+
+/**
+ * RepositoryPreflightSummary
+ *
+ * Result of the pre-flight check of a repository, shown in the application
+ * form between the check and the final submit.
+ *
+ * Functionality:
+ * - Announces that the repository is being checked.
+ * - Once it passed, confirms it exists, is public and has commits, and
+ *   summarizes it: default branch, date of the last commit and primary
+ *   language, so the candidate can tell it's the right repository.
+ * - When the check couldn't be made (network, rate limits...), says so and
+ *   that the application can be submitted anyway.
+ *
+ * Problems found by the check (missing, private, empty or archived
+ * repositories) are shown as errors of the form instead.
+ *
+ * @param props - RepositoryPreflightSummaryProps with the check.
+ * @returns Element with the state or summary of the check.
+ */
+const RepositoryPreflightSummary: React.FC<RepositoryPreflightSummaryProps> = ({
+  preflight,
+}) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+
+  if (preflight.status === "checking") {
+    return (
+      <p
+        className="preflight preflight-checking"
+        role="status"
+        aria-live="polite"
+      >
+        {t("checkingRepository")}
+      </p>
+    );
+  }
+
+  if (preflight.status === "unavailable") {
+    return (
+      <p
+        className="preflight preflight-unavailable"
+        role="status"
+        aria-live="polite"
+      >
+        {t("preflightUnavailable")}
+      </p>
+    );
+  }
+
+  const { defaultBranch, lastCommitAt, primaryLanguage } = preflight.summary;
+
+  return (
+    <section
+      className="preflight preflight-passed"
+      role="status"
+      aria-live="polite"
+      aria-label={t("preflightTitle")}
+    >
+      <p className="preflight-title">✓ {t("preflightPassed")}</p>
+      <dl className="preflight-details">
+        <div>
+          <dt>{t("preflightDefaultBranch")}</dt>
+          <dd>
+            <code>{defaultBranch}</code>
+          </dd>
+        </div>
+        <div>
+          <dt>{t("preflightLastCommit")}</dt>
+          <dd>
+            {lastCommitAt
+              ? formatDate(lastCommitAt, language)
+              : t("preflightUnknown")}
+          </dd>
+        </div>
+        <div>
+          <dt>{t("preflightLanguage")}</dt>
+          <dd>{primaryLanguage ?? t("preflightUnknown")}</dd>
+        </div>
+      </dl>
+    </section>
+  );
+};
+
+export default RepositoryPreflightSummary;
@@ -0,0 +1,105 @@
+import React from "react";
+import type { RepositoryProvider } from "@/models";
+import {
+  detectRepositoryHost,
+  getAllowedRepositoryHosts,
+  getRepositoryHostLabel,
+} from "@/utils";
+import { useTranslation } from "@/hooks";
+import "./RepositoryHostBadge.css";
+
+/**
+ * SVG paths of the mark of each provider, drawn on a 16x16 grid.
+ */
+const PROVIDER_ICONS: Record<RepositoryProvider, string> = {
+  github:
+    "M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.013 8.013 0 0 0 16 8c0-4.42-3.58-8-8-8z",
+  gitlab:
+    "M8 15.2 10.95 6.1H5.05L8 15.2zM8 15.2 5.05 6.1H.92L8 15.2zM.92 6.1.02 8.87a.61.61 0 0 0 .22.68L8 15.2.92 6.1zM.92 6.1h4.13L3.28.63a.3.3 0 0 0-.58 0L.92 6.1zM8 15.2l2.95-9.1h4.13L8 15.2zM15.08 6.1l.9 2.77a.61.61 0 0 1-.22.68L8 15.2l7.08-9.1zM15.08 6.1h-4.13L12.72.63a.3.3 0 0 1 .58 0l1.78 5.47z",
+  bitbucket:
+    "M.52 1A.51.51 0 0 0 0 1.6l2.17 13.18a.7.7 0 0 0 .68.58h10.4a.51.51 0 0 0 .51-.43L15.94 1.6A.51.51 0 0 0 15.43 1H.52zm9.13 9.5H6.33L5.43 5.8h5.03l-.81 4.7z",
+  gitea:
+    "M1.2 4.1c-.95 0-1.6.64-1.1 2.1.75 2.2 2.5 2.7 3.9 2.8.35 1.6 1.4 3.9 3.2 4.6h4.4c1.9-.7 3.2-3 3.8-6.3.2-1 .45-2.9.45-3.2H1.2zm1.5 1.3h1c.1 1 .25 1.9.45 2.6-1-.2-1.6-.8-1.9-1.6-.15-.5 0-1 .45-1zm6.1.6 1.3.6-1.4 3.1-1.3-.6L8.8 6z",
+};
+
+/**
+ * Props for the RepositoryHostBadge component.
+ *
+ * @property repoUrl - Repository URL typed by the candidate.
+ */
+interface RepositoryHostBadgeProps {
+  repoUrl: string;
+}
+
+/**
+ * RepositoryHostBadge
+ *
+ * Shows which repository host a URL belongs to, below the repository fields.
+ *
+ * Functionality:
+ * - Detects the host of the URL as it's typed among the hosts allowed by the
+ *   configuration (repositories.hosts), even before the URL is complete.
+ * - Shows the icon and name of the detected host, naming self-hosted
+ *   instances by their hostname.
+ * - Lists the accepted hosts while the URL is empty or its host isn't one
+ *   of them, so candidates know where their repository can be hosted.
+ *
+ * @param props - RepositoryHostBadgeProps with the URL typed by the candidate.
+ * @returns Element with the detected host or the accepted hosts.
+ */
+const RepositoryHostBadge: React.FC<RepositoryHostBadgeProps> = ({
+  repoUrl,
+}) => {
+  const { t } = useTranslation();
+
+  const hosts = getAllowedRepositoryHosts();
+  const detectedHost = detectRepositoryHost(repoUrl, hosts);
+
+  /**
+   * Renders the mark of a provider, hidden from assistive technologies
+   * since the name of the host is always shown next to it.
+   *
+   * @param provider - Provider whose mark is drawn.
+   * @returns SVG element with the mark.
+   */
+  const renderIcon = (provider: RepositoryProvider): React.ReactElement => (
+    <svg
+      className={`repository-host-icon repository-host-icon-${provider}`}
+      viewBox="0 0 16 16"
+      width="14"
+      height="14"
+      fill="currentColor"
+      aria-hidden="true"
+      focusable="false"
+    >
+      <path d={PROVIDER_ICONS[provider]} />
+    </svg>
+  );
+
+  if (detectedHost) {
+    return (
+      <p className="repository-host">
+        {renderIcon(detectedHost.provider)}
+        <span>
+          {t("repoHostDetected", {
+            host: getRepositoryHostLabel(detectedHost),
+          })}
+        </span>
+      </p>
+    );
+  }
+
+  return (
+    <p className="repository-host repository-host-accepted">
+      <span>{t("repoHostsAccepted")}</span>
+      {hosts.map((host) => (
+        <span key={host.hostname} className="repository-host-option">
+          {renderIcon(host.provider)}
+          {getRepositoryHostLabel(host)}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default RepositoryHostBadge;
@@ -0,0 +1,221 @@
+import React from "react";
+import type { JobFilters } from "@/models";
+import {
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_TRANSLATION_KEYS,
+  JOB_SORT_ORDERS,
+  JOB_SORT_TRANSLATION_KEYS,
+  REMOTE_POLICIES,
+  REMOTE_POLICY_TRANSLATION_KEYS,
+  SENIORITY_LEVELS,
+  SENIORITY_TRANSLATION_KEYS,
+} from "@/constants";
+import type { TranslationKey } from "@/constants";
+import { useTranslation } from "@/hooks";
+import "./JobsToolbar.css";
+
+/**
+ * Props for the JobsToolbar component.
+ *
+ * @property filters - Current search, filters and sort of the jobs list.
+ * @property resultCount - Number of jobs matching the filters.
+ * @property totalCount - Number of jobs loaded, before filtering.
+ * @property isPartial - Whether the API has more pages, so totalCount isn't the final total.
+ * @property savedCount - Number of jobs the candidate saved.
+ * @property hasActiveFilters - Whether the search or any filter narrows the list.
+ * @property onChange - Handler called with the filters that changed.
+ * @property onReset - Handler that clears the search and filters.
+ */
+interface JobsToolbarProps {
+  filters: JobFilters;
+  resultCount: number;
+  totalCount: number;
+  isPartial: boolean;
+  savedCount: number;
+  hasActiveFilters: boolean;
+  onChange: (updates: Partial<JobFilters>) => void;
+  onReset: () => void;
+}
+
+/**
+ * JobsToolbar
+ *
+ * Presentation component with the controls that narrow and order the jobs list.
+ *
+ * Functionality:
+ * - Full-text search over job titles and descriptions.
+ * - Filters by work mode, seniority and employment type ("Any" disables a filter).
+ * - Sort by newest or alphabetically.
+ * - Switches between all positions and the ones the candidate saved.
+ * - Shows how many positions match and a button to clear the filters; while
+ *   more pages remain, the count is labelled as covering the loaded ones only.
+ *
+ * Features:
+ * - Stateless: the filters live in the URL (see useJobFilters), so this
+ *   component only renders them and reports changes.
+ *
+ * @param props - JobsToolbarProps with the filters, counts and handlers.
+ * @returns Element with the search box, filter selects and result summary.
+ */
+const JobsToolbar: React.FC<JobsToolbarProps> = ({
+  filters,
+  resultCount,
+  totalCount,
+  isPartial,
+  savedCount,
+  hasActiveFilters,
+  onChange,
+  onReset,
+}) => {
+  const { t } = useTranslation();
+
+  /**
+   * Renders a filter select whose first option ("Any") clears the filter.
+   *
+   * @param id - Id of the select, also used by its label.
+   * @param label - Translation key of the label.
+   * @param value - Selected option, undefined for "Any".
+   * @param options - Accepted values.
+   * @param labels - Translation key of each value.
+   * @param onSelect - Handler called with the selected value.
+   * @returns Element with the label and select.
+   */
+  const renderFilter = <T extends string>(
+    id: string,
+    label: TranslationKey,
+    value: T | undefined,
+    options: readonly T[],
+    labels: Record<T, TranslationKey>,
+    onSelect: (value: T | undefined) => void,
+  ): React.ReactElement => (
+    <div className="jobs-toolbar-field">
+      <label htmlFor={id} className="jobs-toolbar-label">
+        {t(label)}
+      </label>
+      <select
+        id={id}
+        className="jobs-toolbar-select"
+        value={value ?? ""}
+        onChange={(e) =>
+          onSelect(options.find((option) => option === e.target.value))
+        }
+      >
+        <option value="">{t("filterAny")}</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {t(labels[option])}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <section className="jobs-toolbar" aria-label={t("searchPositions")}>
+      <div className="jobs-toolbar-tabs">
+        <button
+          type="button"
+          className="jobs-toolbar-tab"
+          aria-pressed={!filters.savedOnly}
+          onClick={() => onChange({ savedOnly: false })}
+        >
+          {t("allPositions")}
+        </button>
+        <button
+          type="button"
+          className="jobs-toolbar-tab"
+          aria-pressed={filters.savedOnly}
+          onClick={() => onChange({ savedOnly: true })}
+        >
+          {t("savedPositions", { count: savedCount })}
+        </button>
+      </div>
+
+      <div className="jobs-toolbar-field jobs-toolbar-search">
+        <label htmlFor="jobs-search" className="jobs-toolbar-label">
+          {t("searchPositions")}
+        </label>
+        <input
+          id="jobs-search"
+          type="search"
+          className="jobs-toolbar-input"
+          placeholder={t("searchPlaceholder")}
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+        />
+      </div>
+
+      <div className="jobs-toolbar-filters">
+        {renderFilter(
+          "jobs-filter-remote",
+          "filterRemotePolicy",
+          filters.remotePolicy,
+          REMOTE_POLICIES,
+          REMOTE_POLICY_TRANSLATION_KEYS,
+          (remotePolicy) => onChange({ remotePolicy }),
+        )}
+        {renderFilter(
+          "jobs-filter-seniority",
+          "filterSeniority",
+          filters.seniority,
+          SENIORITY_LEVELS,
+          SENIORITY_TRANSLATION_KEYS,
+          (seniority) => onChange({ seniority }),
+        )}
+        {renderFilter(
+          "jobs-filter-type",
+          "filterEmploymentType",
+          filters.employmentType,
+          EMPLOYMENT_TYPES,
+          EMPLOYMENT_TYPE_TRANSLATION_KEYS,
+          (employmentType) => onChange({ employmentType }),
+        )}
+
+        <div className="jobs-toolbar-field">
+          <label htmlFor="jobs-sort" className="jobs-toolbar-label">
+            {t("sortBy")}
+          </label>
+          <select
+            id="jobs-sort"
+            className="jobs-toolbar-select"
+            value={filters.sort}
+            onChange={(e) =>
+              onChange({
+                sort:
+                  JOB_SORT_ORDERS.find((sort) => sort === e.target.value) ??
+                  filters.sort,
+              })
+            }
+          >
+            {JOB_SORT_ORDERS.map((sort) => (
+              <option key={sort} value={sort}>
+                {t(JOB_SORT_TRANSLATION_KEYS[sort])}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="jobs-toolbar-summary">
+        <p role="status" aria-live="polite">
+          {t(isPartial ? "showingResultsPartial" : "showingResults", {
+            count: resultCount,
+            total: totalCount,
+          })}
+        </p>
+
+        {hasActiveFilters && (
+          <button
+            type="button"
+            className="jobs-toolbar-reset"
+            onClick={onReset}
+          >
+            {t("clearFilters")}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default JobsToolbar;
@@ -0,0 +1,58 @@
+import React from "react";
+import { useRouter } from "@/hooks";
+
+/**
+ * Props for the Link component.
+ *
+ * @property to - Route to open, e.g. "/jobs/42".
+ */
+interface LinkProps extends Omit<
+  React.AnchorHTMLAttributes<HTMLAnchorElement>,
+  "href"
+> {
+  to: string;
+}
+
+/**
+ * Link
+ *
+ * Anchor that navigates between routes of the hash router.
+ *
+ * Functionality:
+ * - Renders a real link ("#/jobs/42"), so it can be opened in a new tab,
+ *   copied or bookmarked.
+ * - Plain clicks navigate without reloading and start the new route at the
+ *   top of the page; modified clicks (new tab, new window) are left to the browser.
+ *
+ * @param props - LinkProps with the target route and any anchor attribute.
+ * @returns Anchor element pointing to the route.
+ */
+const Link: React.FC<LinkProps> = ({ to, onClick, children, ...props }) => {
+  const { navigate } = useRouter();
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey
+    ) {
+      return;
+    }
+
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a {...props} href={`#${to}`} onClick={handleClick}>
+      {children}
+    </a>
+  );
+};
+
+export default Link;
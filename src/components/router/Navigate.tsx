@@ -0,0 +1,34 @@
+import React, { useEffect } from "react";
+import { useRouter } from "@/hooks";
+
+/**
+ * Props for the Navigate component.
+ *
+ * @property to - Route to redirect to.
+ */
+interface NavigateProps {
+  to: string;
+}
+
+/**
+ * Navigate
+ *
+ * Redirects to another route as soon as it renders.
+ *
+ * The current history entry is replaced, so the back button skips the
+ * route that redirected.
+ *
+ * @param props - NavigateProps with the target route.
+ * @returns Nothing, the redirect happens after rendering.
+ */
+const Navigate: React.FC<NavigateProps> = ({ to }) => {
+  const { navigate } = useRouter();
+
+  useEffect(() => {
+    navigate(to, { replace: true });
+  }, [navigate, to]);
+
+  return null;
+};
+
+export default Navigate;
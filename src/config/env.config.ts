@@ -1,27 +1,151 @@
-interface EnvConfig {
+export interface EnvConfig {
   api: {
     baseUrl: string;
     timeout: number;
   };
   auth: {
     email: string;
+    allowedEmails: string; // Comma-separated domains or addresses allowed to sign in, empty for any
+    tokens: boolean; // Whether the API issues access tokens (POST /api/auth/token)
+  };
+  mock: {
+    enabled: boolean;
+    latency: number;
+    failureRate: number;
+    tokenTtl: number; // Lifetime in seconds of the access tokens it issues
+  };
+  instrumentation: {
+    console: boolean; // Logs every API request to the browser console
+    bufferSize: number; // Requests kept in the in-memory request log
+    beaconUrl: string; // Endpoint receiving batched request records, empty to disable
+  };
+  alerts: {
+    pollInterval: number; // Milliseconds between checks for new jobs matching the job alerts
+  };
+  repositories: {
+    hosts: string; // Comma-separated hosts repositories are accepted from, e.g. "github,gitea:git.example.com"
+    inspector: string; // Pre-flight check of the repositories: "public-api", "fake" or "off"
   };
 }
 
-const getEnvVar = (key: string): string => {
-  const value = import.meta.env[key];
-  if (!value) {
-    throw new Error(`Environment variable ${key} is not defined`);
-  }
-  return value;
+// Partial configuration layer (build-time variables, config.json, a profile)
+// Layers are merged section by section over the defaults
+export interface EnvConfigLayer {
+  api?: Partial<EnvConfig["api"]>;
+  auth?: Partial<EnvConfig["auth"]>;
+  mock?: Partial<EnvConfig["mock"]>;
+  instrumentation?: Partial<EnvConfig["instrumentation"]>;
+  alerts?: Partial<EnvConfig["alerts"]>;
+  repositories?: Partial<EnvConfig["repositories"]>;
+}
+
+// Named deployment profiles that config.json can define
+export const CONFIG_PROFILES = ["dev", "staging", "prod"] as const;
+
+export type ConfigProfile = (typeof CONFIG_PROFILES)[number];
+
+// Values used when neither the build nor config.json set them
+export const DEFAULT_CONFIG: EnvConfig = {
+  api: {
+    baseUrl: "",
+    timeout: 30000,
+  },
+  auth: {
+    email: "",
+    allowedEmails: "",
+    tokens: false,
+  },
+  mock: {
+    enabled: false,
+    latency: 400,
+    failureRate: 0,
+    tokenTtl: 300,
+  },
+  instrumentation: {
+    console: import.meta.env.DEV,
+    bufferSize: 200,
+    beaconUrl: "",
+  },
+  alerts: {
+    pollInterval: 300000,
+  },
+  repositories: {
+    hosts: "github",
+    inspector: "",
+  },
+};
+
+// Fallback values used when the local mock backend replaces the real API
+export const MOCK_FALLBACKS = {
+  baseUrl: "/",
+  email: "demo@nimble.test",
+  repositoryInspector: "fake",
+} as const;
+
+// Reads an optional string variable, ignoring empty values
+const getEnvString = (key: string): string | undefined =>
+  import.meta.env[key] || undefined;
+
+// Reads an optional numeric variable, ignoring empty and non-numeric values
+const getEnvNumber = (key: string): number | undefined => {
+  const value = getEnvString(key);
+  return value !== undefined && Number.isFinite(Number(value))
+    ? Number(value)
+    : undefined;
 };
 
-export const envConfig: EnvConfig = {
+// Configuration baked in at build time through VITE_* variables
+// Missing values are left out so config.json (or the defaults) can fill them
+export const buildTimeConfig: EnvConfigLayer = {
   api: {
-    baseUrl: getEnvVar("VITE_API_BASE_URL"),
-    timeout: Number(import.meta.env.VITE_API_TIMEOUT) || 30000,
+    baseUrl: getEnvString("VITE_API_BASE_URL"),
+    timeout: getEnvNumber("VITE_API_TIMEOUT"),
   },
   auth: {
-    email: getEnvVar("VITE_AUTH_EMAIL"),
+    email: getEnvString("VITE_AUTH_EMAIL"),
+    allowedEmails: getEnvString("VITE_AUTH_ALLOWED_EMAILS"),
+    tokens: getEnvString("VITE_AUTH_TOKENS")
+      ? import.meta.env.VITE_AUTH_TOKENS === "true"
+      : undefined,
+  },
+  mock: {
+    enabled: getEnvString("VITE_API_MOCK")
+      ? import.meta.env.VITE_API_MOCK === "true"
+      : undefined,
+    latency: getEnvNumber("VITE_API_MOCK_LATENCY"),
+    failureRate: getEnvNumber("VITE_API_MOCK_FAILURE_RATE"),
+    tokenTtl: getEnvNumber("VITE_API_MOCK_TOKEN_TTL"),
   },
+  instrumentation: {
+    console: getEnvString("VITE_INSTRUMENTATION_CONSOLE")
+      ? import.meta.env.VITE_INSTRUMENTATION_CONSOLE === "true"
+      : undefined,
+    beaconUrl: getEnvString("VITE_INSTRUMENTATION_BEACON_URL"),
+  },
+  alerts: {
+    pollInterval: getEnvNumber("VITE_JOB_ALERTS_POLL_INTERVAL"),
+  },
+  repositories: {
+    hosts: getEnvString("VITE_REPOSITORY_HOSTS"),
+    inspector: getEnvString("VITE_REPOSITORY_INSPECTOR"),
+  },
+};
+
+// Profile used when config.json doesn't pick one
+export const buildTimeProfile: string =
+  getEnvString("VITE_CONFIG_PROFILE") ?? (import.meta.env.DEV ? "dev" : "prod");
+
+// Active configuration
+// Starts with the defaults and is replaced once at startup by applyEnvConfig,
+// so read it when a value is needed instead of copying it at import time
+export const envConfig: EnvConfig = structuredClone(DEFAULT_CONFIG);
+
+// Replaces the active configuration with the resolved one
+export const applyEnvConfig = (config: EnvConfig): void => {
+  Object.assign(envConfig.api, config.api);
+  Object.assign(envConfig.auth, config.auth);
+  Object.assign(envConfig.mock, config.mock);
+  Object.assign(envConfig.instrumentation, config.instrumentation);
+  Object.assign(envConfig.alerts, config.alerts);
+  Object.assign(envConfig.repositories, config.repositories);
 };
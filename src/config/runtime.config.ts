@@ -0,0 +1,358 @@
+import {
+  CONFIG_PROFILES,
+  DEFAULT_CONFIG,
+  MOCK_FALLBACKS,
+  buildTimeConfig,
+  buildTimeProfile,
+} from "./env.config";
+import type { ConfigProfile, EnvConfig, EnvConfigLayer } from "./env.config";
+import {
+  REPOSITORY_INSPECTORS,
+  REPOSITORY_PROVIDERS,
+} from "@/constants/repository.constants";
+import { parseEmailAllowlist } from "@/utils/email";
+import { parseRepositoryHosts } from "@/utils/repository-hosts";
+
+// Problem found while loading or validating the configuration
+// The path points to the offending setting, e.g. "profiles.prod.api.timeout"
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export type RuntimeConfigResult =
+  | { ok: true; config: EnvConfig; profile: ConfigProfile }
+  | { ok: false; issues: ConfigIssue[]; profile?: string };
+
+type SettingType = "string" | "number" | "boolean";
+
+// Settings accepted in config.json and in each of its profiles
+const CONFIG_SCHEMA: {
+  [S in keyof EnvConfig]: { [K in keyof EnvConfig[S]]: SettingType };
+} = {
+  api: { baseUrl: "string", timeout: "number" },
+  auth: { email: "string", allowedEmails: "string", tokens: "boolean" },
+  mock: {
+    enabled: "boolean",
+    latency: "number",
+    failureRate: "number",
+    tokenTtl: "number",
+  },
+  instrumentation: {
+    console: "boolean",
+    bufferSize: "number",
+    beaconUrl: "string",
+  },
+  alerts: { pollInterval: "number" },
+  repositories: { hosts: "string", inspector: "string" },
+};
+
+const CONFIG_FILE = "config.json";
+
+// Shortest interval between job alert checks, so a typo can't flood the API
+const MIN_ALERTS_POLL_INTERVAL = 10000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isProfile = (value: unknown): value is ConfigProfile =>
+  CONFIG_PROFILES.some((profile) => profile === value);
+
+// Reads one configuration layer (the root of config.json or a profile)
+// Every problem is collected in issues instead of stopping at the first one
+const readLayer = (
+  value: Record<string, unknown>,
+  path: string,
+  issues: ConfigIssue[],
+): EnvConfigLayer => {
+  const layer: Record<string, Record<string, unknown>> = {};
+
+  Object.entries(CONFIG_SCHEMA).forEach(([section, fields]) => {
+    const sectionValue = value[section];
+    const sectionPath = path ? `${path}.${section}` : section;
+
+    if (sectionValue === undefined) {
+      return;
+    }
+
+    if (!isRecord(sectionValue)) {
+      issues.push({ path: sectionPath, message: "must be an object" });
+      return;
+    }
+
+    layer[section] = {};
+
+    Object.entries(sectionValue).forEach(([key, setting]) => {
+      const expected: SettingType | undefined =
+        fields[key as keyof typeof fields];
+
+      if (!expected) {
+        issues.push({
+          path: `${sectionPath}.${key}`,
+          message: `is not a known setting (expected one of ${Object.keys(fields).join(", ")})`,
+        });
+      } else if (typeof setting !== expected) {
+        issues.push({
+          path: `${sectionPath}.${key}`,
+          message: `must be a ${expected}, received ${JSON.stringify(setting)}`,
+        });
+      } else {
+        layer[section][key] = setting;
+      }
+    });
+  });
+
+  return layer;
+};
+
+// Merges layers section by section, later layers win
+// Unset (undefined) values never override an earlier one
+const mergeLayers = (...layers: EnvConfigLayer[]): EnvConfig => {
+  const config = structuredClone(DEFAULT_CONFIG);
+
+  layers.forEach((layer) => {
+    (Object.keys(config) as (keyof EnvConfig)[]).forEach((section) => {
+      Object.entries(layer[section] ?? {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+          (config[section] as Record<string, unknown>)[key] = value;
+        }
+      });
+    });
+  });
+
+  return config;
+};
+
+// Checks the merged configuration, filling the values the mock backend
+// makes optional
+const validateConfig = (config: EnvConfig, issues: ConfigIssue[]): void => {
+  const { api, auth, mock, instrumentation, alerts, repositories } = config;
+
+  if (!api.baseUrl.trim()) {
+    if (mock.enabled) {
+      api.baseUrl = MOCK_FALLBACKS.baseUrl;
+    } else {
+      issues.push({
+        path: "api.baseUrl",
+        message: "is required. Set it in config.json or VITE_API_BASE_URL",
+      });
+    }
+  }
+
+  if (!auth.email.trim()) {
+    if (mock.enabled) {
+      auth.email = MOCK_FALLBACKS.email;
+    } else {
+      issues.push({
+        path: "auth.email",
+        message: "is required. Set it in config.json or VITE_AUTH_EMAIL",
+      });
+    }
+  }
+
+  // The mock backend always issues tokens
+  if (mock.enabled) {
+    auth.tokens = true;
+  }
+
+  const { invalid: invalidEmails } = parseEmailAllowlist(auth.allowedEmails);
+
+  if (invalidEmails.length > 0) {
+    issues.push({
+      path: "auth.allowedEmails",
+      message: `has invalid entries (${invalidEmails.join(", ")}). Use domains (acme.com) or addresses (jane@acme.com)`,
+    });
+  }
+
+  if (!(api.timeout > 0)) {
+    issues.push({ path: "api.timeout", message: "must be greater than 0" });
+  }
+
+  if (!(mock.latency >= 0)) {
+    issues.push({ path: "mock.latency", message: "can't be negative" });
+  }
+
+  if (!(mock.failureRate >= 0 && mock.failureRate <= 1)) {
+    issues.push({
+      path: "mock.failureRate",
+      message: "must be between 0 and 1",
+    });
+  }
+
+  if (!(mock.tokenTtl > 0)) {
+    issues.push({ path: "mock.tokenTtl", message: "must be greater than 0" });
+  }
+
+  if (
+    !Number.isInteger(instrumentation.bufferSize) ||
+    instrumentation.bufferSize < 1
+  ) {
+    issues.push({
+      path: "instrumentation.bufferSize",
+      message: "must be a whole number greater than 0",
+    });
+  }
+
+  if (
+    instrumentation.beaconUrl &&
+    !URL.canParse(instrumentation.beaconUrl, window.location.href)
+  ) {
+    issues.push({
+      path: "instrumentation.beaconUrl",
+      message: "must be a valid URL",
+    });
+  }
+
+  if (!(alerts.pollInterval >= MIN_ALERTS_POLL_INTERVAL)) {
+    issues.push({
+      path: "alerts.pollInterval",
+      message: `must be at least ${MIN_ALERTS_POLL_INTERVAL} (milliseconds)`,
+    });
+  }
+
+  const { hosts, invalid } = parseRepositoryHosts(repositories.hosts);
+
+  if (invalid.length > 0) {
+    issues.push({
+      path: "repositories.hosts",
+      message: `has invalid entries (${invalid.join(", ")}). Use a provider (${REPOSITORY_PROVIDERS.join(", ")}) or provider:hostname for self-hosted instances`,
+    });
+  } else if (hosts.length === 0) {
+    issues.push({
+      path: "repositories.hosts",
+      message: "must list at least one repository host",
+    });
+  }
+
+  // Without a value, the mock backend checks repositories with the offline fake
+  if (!repositories.inspector.trim()) {
+    repositories.inspector = mock.enabled
+      ? MOCK_FALLBACKS.repositoryInspector
+      : "public-api";
+  } else if (
+    !REPOSITORY_INSPECTORS.some(
+      (inspector) => inspector === repositories.inspector,
+    )
+  ) {
+    issues.push({
+      path: "repositories.inspector",
+      message: `must be one of ${REPOSITORY_INSPECTORS.join(", ")}, received ${JSON.stringify(repositories.inspector)}`,
+    });
+  }
+};
+
+// Fetches config.json from the deployment root
+// Returns null when the file doesn't exist, since it's optional
+const fetchConfigFile = async (): Promise<unknown> => {
+  const response = await fetch(`${import.meta.env.BASE_URL}${CONFIG_FILE}`, {
+    cache: "no-store",
+  });
+
+  // Dev servers and static hosts may answer a missing file with index.html
+  const isHtml = response.headers.get("content-type")?.includes("text/html");
+
+  if (response.status === 404 || (response.ok && isHtml)) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`the server answered ${response.status}`);
+  }
+
+  const text = await response.text();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("the file is not valid JSON");
+  }
+};
+
+// Resolves the configuration from the build-time defaults and config.json
+// Precedence: defaults < VITE_* variables < config.json < selected profile
+const resolveConfig = (file: unknown): RuntimeConfigResult => {
+  const issues: ConfigIssue[] = [];
+
+  if (file !== null && !isRecord(file)) {
+    return {
+      ok: false,
+      issues: [{ path: CONFIG_FILE, message: "must contain a JSON object" }],
+    };
+  }
+
+  const root = file ?? {};
+  const profile = root.profile ?? buildTimeProfile;
+
+  if (!isProfile(profile)) {
+    return {
+      ok: false,
+      profile: String(profile),
+      issues: [
+        {
+          path: "profile",
+          message: `must be one of ${CONFIG_PROFILES.join(", ")}, received ${JSON.stringify(profile)}`,
+        },
+      ],
+    };
+  }
+
+  const knownKeys = ["profile", "profiles", ...Object.keys(CONFIG_SCHEMA)];
+  Object.keys(root)
+    .filter((key) => !knownKeys.includes(key))
+    .forEach((key) =>
+      issues.push({ path: key, message: "is not a known setting" }),
+    );
+
+  const shared = readLayer(root, "", issues);
+  let selected: EnvConfigLayer = {};
+
+  if (root.profiles !== undefined) {
+    if (!isRecord(root.profiles)) {
+      issues.push({ path: "profiles", message: "must be an object" });
+    } else {
+      Object.entries(root.profiles).forEach(([name, value]) => {
+        const path = `profiles.${name}`;
+
+        if (!isProfile(name)) {
+          issues.push({
+            path,
+            message: `is not a known profile (expected one of ${CONFIG_PROFILES.join(", ")})`,
+          });
+        } else if (!isRecord(value)) {
+          issues.push({ path, message: "must be an object" });
+        } else {
+          // Every profile is checked so mistakes surface in any environment
+          const layer = readLayer(value, path, issues);
+          if (name === profile) {
+            selected = layer;
+          }
+        }
+      });
+    }
+  }
+
+  const config = mergeLayers(buildTimeConfig, shared, selected);
+  validateConfig(config, issues);
+
+  return issues.length > 0
+    ? { ok: false, issues, profile }
+    : { ok: true, config, profile };
+};
+
+// Loads config.json and resolves the configuration the app starts with
+// Never rejects: problems are returned as issues for the startup screen
+export const loadRuntimeConfig = async (): Promise<RuntimeConfigResult> => {
+  try {
+    return resolveConfig(await fetchConfigFile());
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [
+        {
+          path: CONFIG_FILE,
+          message: `couldn't be loaded: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+    };
+  }
+};
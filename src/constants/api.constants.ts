@@ -8,9 +8,65 @@ export const API_ENDPOINTS = {
   JOBS: {
     GET_LIST: "/api/jobs/get-list",
   },
+  AUTH: {
+    TOKEN: "/api/auth/token",
+    REFRESH: "/api/auth/refresh",
+  },
+} as const;
+
+// Session timing
+// The access token is refreshed this long before it expires
+export const SESSION_CONFIG = {
+  REFRESH_MARGIN_MS: 30_000,
+} as const;
+
+// Retry policy for application submissions
+// Only network errors, timeouts and 5xx responses are retried
+export const APPLY_RETRY_CONFIG = {
+  MAX_ATTEMPTS: 4,
+  BASE_DELAY_MS: 500,
+  MAX_DELAY_MS: 4000,
+} as const;
+
+// Number of applications a batch submission sends at the same time
+export const BATCH_APPLY_CONFIG = {
+  CONCURRENCY: 3,
+} as const;
+
+// Most pages of the jobs list fetched by each job alerts check
+// The interval between checks is set by envConfig.alerts.pollInterval
+export const JOB_ALERTS_CONFIG = {
+  MAX_PAGES: 5,
+} as const;
+
+// Header carrying the client-generated key that deduplicates retried submissions
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// Header carrying the ID that matches a request with its entry in the request log
+export const CORRELATION_HEADER = "X-Correlation-ID";
+
+// Keys of the queries stored in the shared query cache
+export const QUERY_KEYS = {
+  JOBS: "jobs",
+} as const;
+
+// Time-to-live of cached query data before it's revalidated
+export const CACHE_CONFIG = {
+  JOBS_TTL_MS: 60_000,
+} as const;
+
+// Number of jobs requested per page of the jobs list
+export const PAGINATION_CONFIG = {
+  JOBS_PAGE_SIZE: 20,
 } as const;
 
 // localStorage keys
 export const STORAGE_KEYS = {
   CANDIDATE_DATA: "candidateData",
+  APPLICATION_OUTBOX: "applicationOutbox",
+  AUTH_SESSION: "authSession",
+  APPLICATION_HISTORY: "applicationHistory",
+  SAVED_JOBS: "savedJobs",
+  APPLICATION_DRAFTS: "applicationDrafts",
+  JOB_ALERTS: "jobAlerts",
 } as const;
@@ -1,5 +1,4 @@
 export const $Default = {
   EMPTY_STRING: "",
   EMPTY_NUMBER: 0,
-  GITHUB: "https://github.com/username/repository",
 };
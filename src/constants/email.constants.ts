@@ -0,0 +1,63 @@
+// Email providers candidates often mistype, offered as suggestions
+// ("gmial.com" → "gmail.com")
+// The domains of the allowlist are offered too
+export const COMMON_EMAIL_DOMAINS: readonly string[] = [
+  "gmail.com",
+  "googlemail.com",
+  "hotmail.com",
+  "hotmail.es",
+  "outlook.com",
+  "outlook.es",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "yahoo.es",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "mail.com",
+  "gmx.com",
+  "gmx.de",
+  "proton.me",
+  "protonmail.com",
+];
+
+// Top-level domains that are real on their own: "hotmail.de" is a real
+// domain, not a typo of "hotmail.es", so a suggestion never just swaps one
+// of these for another
+export const KNOWN_EMAIL_TLDS: readonly string[] = [
+  "com",
+  "net",
+  "org",
+  "edu",
+  "gov",
+  "io",
+  "dev",
+  "me",
+  "co",
+  "ar",
+  "br",
+  "ca",
+  "cl",
+  "de",
+  "es",
+  "fr",
+  "it",
+  "mx",
+  "nl",
+  "pt",
+  "uk",
+  "us",
+  "uy",
+];
+
+// Most edits (typed, missing, swapped or extra characters) between the name
+// of a domain (without its TLD) and the one suggested for it
+// Short names only get one, and the shortest ones none, so real domains that
+// happen to look alike aren't "corrected"; a mistyped TLD gets one
+export const EMAIL_SUGGESTION_CONFIG = {
+  MAX_NAME_DISTANCE: 2,
+  SHORT_NAME_LENGTH: 6,
+  MIN_NAME_LENGTH: 3,
+  MAX_TLD_DISTANCE: 1,
+} as const;
@@ -1,5 +1,61 @@
-export const errors = {
-  INVALID_GITHUB_URL: "Please enter the GitHub repository URL",
-  APPLICATION_FAILED: "Failed to submit application",
-  LOAD_JOBS_FAILED: "Failed to load jobs",
+import type {
+  ApiErrorKind,
+  EmailErrorReason,
+  RepositoryInspectionProblem,
+  RepositoryUrlErrorReason,
+} from "@/models";
+import type { TranslationKey } from "./translations.constants";
+
+// Machine-readable codes attached to an ApiError for specific failures
+export const ERROR_CODES = {
+  INVALID_EMAIL: "INVALID_EMAIL",
+} as const;
+
+// Translated message shown for each kind of API error
+export const API_ERROR_TRANSLATION_KEYS: Record<ApiErrorKind, TranslationKey> =
+  {
+    network: "apiErrorNetwork",
+    timeout: "apiErrorTimeout",
+    unauthorized: "apiErrorUnauthorized",
+    "not-found": "apiErrorNotFound",
+    validation: "apiErrorValidation",
+    server: "apiErrorServer",
+    "invalid-response": "apiErrorInvalidResponse",
+    aborted: "apiErrorAborted",
+  };
+
+// Translated message shown for each reason an email is rejected
+export const EMAIL_ERROR_TRANSLATION_KEYS: Record<
+  EmailErrorReason,
+  TranslationKey
+> = {
+  empty: "enterEmail",
+  "invalid-format": "invalidEmailFormat",
+  "not-allowed": "emailNotAllowed",
+};
+
+// Translated message shown for each reason a repository URL is rejected
+export const REPOSITORY_URL_ERROR_TRANSLATION_KEYS: Record<
+  RepositoryUrlErrorReason,
+  TranslationKey
+> = {
+  empty: "enterRepoUrl",
+  "invalid-url": "invalidRepoUrl",
+  "unsupported-protocol": "repoUrlUnsupportedProtocol",
+  "unsupported-host": "repoUrlUnsupportedHost",
+  "missing-repository": "repoUrlMissingRepository",
+  "not-a-repository": "repoUrlNotRepository",
+  "invalid-owner": "repoUrlInvalidOwner",
+  "invalid-repository": "repoUrlInvalidRepository",
+};
+
+// Translated message shown for each problem found by the pre-flight check
+export const REPOSITORY_INSPECTION_PROBLEM_TRANSLATION_KEYS: Record<
+  RepositoryInspectionProblem,
+  TranslationKey
+> = {
+  "not-found": "repoNotFound",
+  private: "repoPrivate",
+  empty: "repoEmpty",
+  archived: "repoArchived",
 };
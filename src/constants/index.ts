@@ -1,2 +1,6 @@
 export * from "./api.constants";
 export * from "./translations.constants";
+export * from "./job.constants";
+export * from "./routes.constants";
+export * from "./repository.constants";
+export * from "./email.constants";
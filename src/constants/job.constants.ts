@@ -0,0 +1,133 @@
+import type {
+  ApplicationStatus,
+  BatchApplyStatus,
+  EmploymentType,
+  JobFilters,
+  JobSortOrder,
+  RemotePolicy,
+  SalaryPeriod,
+  Seniority,
+} from "@/models";
+import type { TranslationKey } from "./translations.constants";
+
+// Accepted values of the job fields, also used by the decoders
+export const REMOTE_POLICIES: readonly RemotePolicy[] = [
+  "remote",
+  "hybrid",
+  "onsite",
+];
+
+export const SENIORITY_LEVELS: readonly Seniority[] = [
+  "intern",
+  "junior",
+  "mid",
+  "senior",
+  "lead",
+];
+
+export const EMPLOYMENT_TYPES: readonly EmploymentType[] = [
+  "full-time",
+  "part-time",
+  "contract",
+  "internship",
+];
+
+export const SALARY_PERIODS: readonly SalaryPeriod[] = [
+  "year",
+  "month",
+  "hour",
+];
+
+// Translated label shown for each value
+export const REMOTE_POLICY_TRANSLATION_KEYS: Record<
+  RemotePolicy,
+  TranslationKey
+> = {
+  remote: "remotePolicyRemote",
+  hybrid: "remotePolicyHybrid",
+  onsite: "remotePolicyOnsite",
+};
+
+export const SENIORITY_TRANSLATION_KEYS: Record<Seniority, TranslationKey> = {
+  intern: "seniorityIntern",
+  junior: "seniorityJunior",
+  mid: "seniorityMid",
+  senior: "senioritySenior",
+  lead: "seniorityLead",
+};
+
+export const EMPLOYMENT_TYPE_TRANSLATION_KEYS: Record<
+  EmploymentType,
+  TranslationKey
+> = {
+  "full-time": "employmentFullTime",
+  "part-time": "employmentPartTime",
+  contract: "employmentContract",
+  internship: "employmentInternship",
+};
+
+export const SALARY_PERIOD_TRANSLATION_KEYS: Record<
+  SalaryPeriod,
+  TranslationKey
+> = {
+  year: "salaryPerYear",
+  month: "salaryPerMonth",
+  hour: "salaryPerHour",
+};
+
+export const JOB_SORT_ORDERS: readonly JobSortOrder[] = ["newest", "title"];
+
+export const JOB_SORT_TRANSLATION_KEYS: Record<JobSortOrder, TranslationKey> = {
+  newest: "sortNewest",
+  title: "sortTitle",
+};
+
+// Filters of the jobs list when the URL doesn't set any
+export const DEFAULT_JOB_FILTERS: JobFilters = {
+  query: "",
+  savedOnly: false,
+  sort: "newest",
+};
+
+// Query string parameters that persist the jobs list filters in the URL
+export const JOB_FILTER_PARAMS = {
+  QUERY: "q",
+  REMOTE_POLICY: "remote",
+  SENIORITY: "seniority",
+  EMPLOYMENT_TYPE: "type",
+  SAVED: "saved",
+  SORT: "sort",
+} as const;
+
+// Statuses the server reports for an application
+export const APPLICATION_STATUSES: readonly ApplicationStatus[] = [
+  "received",
+  "in_review",
+  "accepted",
+  "rejected",
+];
+
+export const APPLICATION_STATUS_TRANSLATION_KEYS: Record<
+  ApplicationStatus,
+  TranslationKey
+> = {
+  received: "applicationStatusReceived",
+  in_review: "applicationStatusInReview",
+  accepted: "applicationStatusAccepted",
+  rejected: "applicationStatusRejected",
+};
+
+export const BATCH_APPLY_STATUS_TRANSLATION_KEYS: Record<
+  BatchApplyStatus,
+  TranslationKey
+> = {
+  pending: "batchStatusPending",
+  submitting: "batchStatusSubmitting",
+  success: "batchStatusSuccess",
+  queued: "batchStatusQueued",
+  applied: "batchStatusApplied",
+  failed: "batchStatusFailed",
+};
+
+// Maximum number of jobs pinned to the comparison drawer at once
+export const MAX_COMPARED_JOBS = 3;
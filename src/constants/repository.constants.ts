@@ -0,0 +1,103 @@
+import type { RepositoryProvider, RepositoryProviderRules } from "@/models";
+
+export const REPOSITORY_PROVIDERS: readonly RepositoryProvider[] = [
+  "github",
+  "gitlab",
+  "bitbucket",
+  "gitea",
+];
+
+// URL rules of each provider
+// Names are checked loosely enough to accept every real repository, the
+// host is what finally rejects the ones that don't exist
+export const REPOSITORY_PROVIDER_RULES: Record<
+  RepositoryProvider,
+  RepositoryProviderRules
+> = {
+  github: {
+    label: "GitHub",
+    publicHost: "github.com",
+    // Letters, digits and single hyphens, not at the start or the end
+    owner: /^(?=.{1,39}$)[a-z\d](?:-?[a-z\d])*$/i,
+    nestedOwners: false,
+    repo: /^[\w.-]{1,100}$/,
+    reservedOwners: [
+      "about",
+      "apps",
+      "collections",
+      "enterprise",
+      "events",
+      "explore",
+      "features",
+      "login",
+      "marketplace",
+      "new",
+      "notifications",
+      "orgs",
+      "organizations",
+      "pricing",
+      "pulls",
+      "search",
+      "settings",
+      "sponsors",
+      "topics",
+      "trending",
+    ],
+    branchPath: ["tree"],
+  },
+  gitlab: {
+    label: "GitLab",
+    publicHost: "gitlab.com",
+    owner: /^[\w][\w.-]{0,254}$/,
+    nestedOwners: true,
+    repo: /^[\w][\w.-]{0,254}$/,
+    reservedOwners: [
+      "-",
+      "admin",
+      "dashboard",
+      "explore",
+      "groups",
+      "help",
+      "projects",
+      "search",
+      "users",
+    ],
+    branchPath: ["-", "tree"],
+  },
+  bitbucket: {
+    label: "Bitbucket",
+    publicHost: "bitbucket.org",
+    owner: /^[\w-]{1,62}$/,
+    nestedOwners: false,
+    repo: /^[\w.-]{1,62}$/,
+    reservedOwners: ["account", "dashboard", "product", "repo", "site", "-"],
+    branchPath: ["src"],
+  },
+  gitea: {
+    label: "Gitea",
+    owner: /^[\w.-]{1,40}$/,
+    nestedOwners: false,
+    repo: /^[\w.-]{1,100}$/,
+    reservedOwners: [
+      "-",
+      "admin",
+      "api",
+      "explore",
+      "issues",
+      "notifications",
+      "org",
+      "pulls",
+      "repo",
+      "user",
+    ],
+    branchPath: ["src", "branch"],
+  },
+};
+
+// Inspectors the repositories.inspector setting can pick for the pre-flight
+// check: the public API of each host, the offline fake, or no check at all
+export const REPOSITORY_INSPECTORS = ["public-api", "fake", "off"] as const;
+
+export const REPOSITORY_INSPECTION_CONFIG = {
+  CACHE_TTL_MS: 5 * 60 * 1000, // How long a successful check is reused
+} as const;
@@ -0,0 +1,17 @@
+// Paths of the hash router
+// Segments starting with ":" are parameters (see matchRoute)
+export const ROUTES = {
+  LOGIN: "/login",
+  JOBS: "/jobs",
+  JOB_DETAIL: "/jobs/:id",
+  APPLICATIONS: "/applications",
+} as const;
+
+// Route opened after login when the candidate didn't request another one
+export const DEFAULT_ROUTE = ROUTES.JOBS;
+
+// Query parameter of the login route with the route to return to
+export const REDIRECT_PARAM = "redirect";
+
+export const buildJobPath = (jobId: string): string =>
+  ROUTES.JOB_DETAIL.replace(":id", encodeURIComponent(jobId));
@@ -5,15 +5,127 @@ export const translations = {
   en: {
     // Jobs Page
     availablePositions: "Available Positions",
-    applyToPositions: "Apply to open positions with your GitHub repository",
+    applyToPositions: "Apply to open positions with your repository",
     signOut: "Sign Out",
     jobId: "Job ID",
-    githubRepoUrl: "GitHub Repository URL",
+    repositoryUrl: "Repository URL",
     submitApplication: "Submit Application",
     submitting: "Submitting...",
+    retryingSubmission:
+      "Connection problem. Retrying (attempt {attempt} of {maxAttempts})...",
     applicationSuccess: "Application submitted successfully",
+    draftSaved: "Draft saved at {time}",
+    discardDraft: "Discard draft",
+    pendingSync:
+      "Pending sync: you're offline, the application will be sent when you're back online.",
+    syncingApplication: "Syncing your queued application...",
+    queuedApplicationFailed: "Your queued application could not be sent.",
+    cancelPendingApplication: "Cancel",
+    dismiss: "Dismiss",
     loadingPositions: "Loading available positions...",
     noPositions: "No positions available at the moment",
+    refresh: "Refresh",
+    refreshing: "Refreshing...",
+
+    // Jobs toolbar
+    searchPositions: "Search positions",
+    searchPlaceholder: "Search by title or description",
+    filterRemotePolicy: "Work mode",
+    filterSeniority: "Seniority",
+    filterEmploymentType: "Employment type",
+    filterAny: "Any",
+    sortBy: "Sort by",
+    sortNewest: "Newest",
+    sortTitle: "Alphabetical (A-Z)",
+    showingResults: "Showing {count} of {total} positions",
+    showingResultsPartial:
+      "Showing {count} of the first {total} positions loaded",
+    clearFilters: "Clear filters",
+    noMatchingPositions: "No positions match your search or filters",
+    loadingMorePositions: "Loading more positions...",
+    searchingMorePositions: "Searching the rest of the positions...",
+    loadMoreFailed: "More positions could not be loaded.",
+    retry: "Retry",
+    myApplications: "My applications",
+    noApplications: "You haven't applied to any position yet.",
+    appliedOn: "Applied on {date}",
+    applicationStatusReceived: "Received",
+    applicationStatusInReview: "In review",
+    applicationStatusAccepted: "Accepted",
+    applicationStatusRejected: "Rejected",
+    saveJob: "Save position",
+    unsaveJob: "Remove from saved",
+    savedJobsCount: "Saved: {count}",
+    allPositions: "All positions",
+    loadingPosition: "Loading position...",
+    positionNotFound: "This position doesn't exist or is no longer available.",
+    backToPositions: "← Back to positions",
+    viewAllApplications: "Open My applications",
+    selectMultiple: "Apply to several positions",
+    batchApplyTitle: "Apply to several positions",
+    exitSelection: "Done",
+    selectedPositions: "Selected positions: {count}",
+    clearSelection: "Clear selection",
+    selectPosition: "Select {title}",
+    applyToSelected: "Apply to selected",
+    batchSummary: "{succeeded} of {total} sent, {failed} failed",
+    retryFailed: "Retry failed",
+    batchStatusPending: "Waiting",
+    batchStatusSubmitting: "Sending...",
+    batchStatusSuccess: "Sent",
+    batchStatusQueued: "Pending sync",
+    batchStatusApplied: "Already applied",
+    batchStatusFailed: "Failed",
+    batchAlreadySubmitting:
+      "An application to this position is already being sent from its card.",
+    savedPositions: "Saved ({count})",
+    compareJob: "Compare",
+    comparing: "Comparing",
+    comparisonFull: "You can compare up to {max} positions",
+    comparePositions: "Compare positions ({count}/{max})",
+    clearComparison: "Clear comparison",
+    comparisonLegend: "Highlighted rows differ between the positions.",
+    comparisonDiffers: "Differs",
+    removeFromComparison: "Remove {title} from the comparison",
+    comparisonLocation: "Location",
+    comparisonSalary: "Salary",
+    comparisonPosted: "Published",
+    comparisonApply: "Apply",
+    jobAlertsTitle: "Job alerts",
+    createJobAlert: "Alert me about new positions for this search",
+    jobAlertActive: "Alert active for this search",
+    removeJobAlert: "Remove the alert for {search}",
+    newPositionsBanner: "New positions matching your alerts: {count}",
+    newPositionsNotification: "New positions matching your alerts: {count}",
+    showNewPositions: "Show",
+    notificationsBlocked:
+      "Browser notifications are blocked, new positions will only be announced on this page.",
+
+    // Job details
+    showDetails: "Show details",
+    hideDetails: "Hide details",
+    jobDescription: "Description",
+    jobTags: "Skills",
+    noJobDetails: "No additional details were provided for this position.",
+    postedOn: "Posted {date}",
+    salaryRange: "{min} – {max}",
+    salaryFrom: "From {amount}",
+    salaryUpTo: "Up to {amount}",
+    salaryPerYear: "{amount} per year",
+    salaryPerMonth: "{amount} per month",
+    salaryPerHour: "{amount} per hour",
+    remotePolicyRemote: "Remote",
+    remotePolicyHybrid: "Hybrid",
+    remotePolicyOnsite: "On-site",
+    seniorityIntern: "Intern",
+    seniorityJunior: "Junior",
+    seniorityMid: "Mid-level",
+    senioritySenior: "Senior",
+    seniorityLead: "Lead",
+    employmentFullTime: "Full-time",
+    employmentPartTime: "Part-time",
+    employmentContract: "Contract",
+    employmentInternship: "Internship",
 
     // Login Page
     jobApplicationPortal: "Job Application Portal",
@@ -22,18 +134,78 @@ export const translations = {
     emailPlaceholder: "your.email@example.com",
     continue: "Continue",
     authenticating: "Authenticating...",
+    sessionExpired: "Your session has expired. Please sign in again.",
 
     // Errors
     enterEmail: "Please enter your email",
+    invalidEmailFormat:
+      "Please enter a valid email address, e.g. name@example.com.",
+    emailNotAllowed:
+      "This email isn't allowed to access the portal. Please use the address you applied with.",
+    emailSuggestion: "Did you mean {email}?",
     invalidEmail:
       "The email you entered is not authorized. Please use a valid email address.",
     authFailed:
       "Failed to authenticate. Please check your email and try again.",
     enterRepoUrl: "Please enter a repository URL",
-    invalidGithubUrl:
-      "Please enter a valid GitHub repository URL (e.g., https://github.com/username/repo)",
+    invalidRepoUrl:
+      "Please enter a valid repository URL (e.g., https://github.com/username/repo)",
+    repoUrlUnsupportedProtocol:
+      "Use an https:// address or an SSH address (git@host:username/repo).",
+    repoUrlUnsupportedHost:
+      "Repositories from this host aren't accepted. Use one of the accepted hosts.",
+    repoUrlMissingRepository:
+      "The URL must include the owner and the repository name (e.g., https://github.com/username/repo).",
+    repoUrlNotRepository: "This is a page of the host, not a repository.",
+    repoUrlInvalidOwner:
+      "The owner isn't a valid user, organization or group name for this host.",
+    repoUrlInvalidRepository:
+      "The repository name can only contain letters, numbers, \".\", \"-\" and \"_\".",
+    repoUrlCanonical: "Will be submitted as {url}",
+    repoHostDetected: "Hosted on {host}",
+    repoHostsAccepted: "Accepted hosts:",
+    checkingRepository: "Checking the repository…",
+    confirmSubmission: "Confirm and Submit",
+    preflightTitle: "Repository check",
+    preflightPassed: "The repository exists, is public and has commits.",
+    preflightDefaultBranch: "Default branch",
+    preflightLastCommit: "Last commit",
+    preflightLanguage: "Primary language",
+    preflightUnknown: "Unknown",
+    preflightUnavailable:
+      "The repository couldn't be checked right now. You can submit it anyway.",
+    repoNotFound:
+      "This repository doesn't exist or isn't public. Check the URL and the visibility of the repository.",
+    repoPrivate:
+      "This repository is private, reviewers won't be able to open it. Make it public and try again.",
+    repoEmpty: "This repository has no commits yet.",
+    repoArchived:
+      "This repository is archived. Please submit a repository you're still working on.",
     submitFailed: "Failed to submit application",
+    applicationNotAccepted:
+      "The application was not accepted. Please try again.",
     loadJobsFailed: "Failed to load jobs",
+    errorReference: "Reference: {id}",
+
+    // API Errors
+    apiErrorNetwork:
+      "Unable to reach the server. Please check your connection and try again.",
+    apiErrorTimeout: "The server took too long to respond. Please try again.",
+    apiErrorUnauthorized: "You are not authorized. Please sign in again.",
+    apiErrorNotFound: "The requested resource could not be found.",
+    apiErrorValidation:
+      "The server rejected the request. Please review the data and try again.",
+    apiErrorServer: "The server encountered an error. Please try again later.",
+    apiErrorInvalidResponse:
+      "The server returned unexpected data. Please try again later or contact support.",
+    apiErrorAborted: "The request was cancelled.",
+
+    // Startup configuration
+    configErrorTitle: "The portal couldn't start",
+    configErrorDescription:
+      "The runtime configuration has problems. Fix them in config.json (or the build variables) and reload the page.",
+    configErrorProfile: "Profile: {profile}",
+    reload: "Reload",
 
     // Settings
     theme: "Theme",
@@ -47,15 +219,127 @@ export const translations = {
     // Jobs Page
     availablePositions: "Posiciones Disponibles",
     applyToPositions:
-      "Aplica a posiciones abiertas con tu repositorio de GitHub",
+      "Aplica a posiciones abiertas con tu repositorio",
     signOut: "Cerrar Sesión",
     jobId: "ID del Trabajo",
-    githubRepoUrl: "URL del Repositorio de GitHub",
+    repositoryUrl: "URL del Repositorio",
     submitApplication: "Enviar Aplicación",
     submitting: "Enviando...",
+    retryingSubmission:
+      "Problema de conexión. Reintentando (intento {attempt} de {maxAttempts})...",
     applicationSuccess: "Aplicación enviada exitosamente",
+    draftSaved: "Borrador guardado a las {time}",
+    discardDraft: "Descartar borrador",
+    pendingSync:
+      "Pendiente de sincronizar: estás sin conexión, la aplicación se enviará al recuperarla.",
+    syncingApplication: "Sincronizando tu aplicación pendiente...",
+    queuedApplicationFailed: "No se pudo enviar tu aplicación pendiente.",
+    cancelPendingApplication: "Cancelar",
+    dismiss: "Descartar",
     loadingPositions: "Cargando posiciones disponibles...",
     noPositions: "No hay posiciones disponibles en este momento",
+    refresh: "Actualizar",
+    refreshing: "Actualizando...",
+
+    // Jobs toolbar
+    searchPositions: "Buscar posiciones",
+    searchPlaceholder: "Buscar por título o descripción",
+    filterRemotePolicy: "Modalidad",
+    filterSeniority: "Seniority",
+    filterEmploymentType: "Tipo de empleo",
+    filterAny: "Cualquiera",
+    sortBy: "Ordenar por",
+    sortNewest: "Más recientes",
+    sortTitle: "Alfabético (A-Z)",
+    showingResults: "Mostrando {count} de {total} posiciones",
+    showingResultsPartial:
+      "Mostrando {count} de las primeras {total} posiciones cargadas",
+    clearFilters: "Limpiar filtros",
+    noMatchingPositions: "Ninguna posición coincide con tu búsqueda o filtros",
+    loadingMorePositions: "Cargando más posiciones...",
+    searchingMorePositions: "Buscando en el resto de las posiciones...",
+    loadMoreFailed: "No se pudieron cargar más posiciones.",
+    retry: "Reintentar",
+    myApplications: "Mis postulaciones",
+    noApplications: "Todavía no te postulaste a ninguna posición.",
+    appliedOn: "Postulado el {date}",
+    applicationStatusReceived: "Recibida",
+    applicationStatusInReview: "En revisión",
+    applicationStatusAccepted: "Aceptada",
+    applicationStatusRejected: "Rechazada",
+    saveJob: "Guardar posición",
+    unsaveJob: "Quitar de guardados",
+    savedJobsCount: "Guardados: {count}",
+    allPositions: "Todas las posiciones",
+    loadingPosition: "Cargando posición...",
+    positionNotFound: "Esta posición no existe o ya no está disponible.",
+    backToPositions: "← Volver a las posiciones",
+    viewAllApplications: "Abrir Mis postulaciones",
+    selectMultiple: "Postularme a varias posiciones",
+    batchApplyTitle: "Postularme a varias posiciones",
+    exitSelection: "Listo",
+    selectedPositions: "Posiciones seleccionadas: {count}",
+    clearSelection: "Quitar selección",
+    selectPosition: "Seleccionar {title}",
+    applyToSelected: "Postularme a las seleccionadas",
+    batchSummary: "{succeeded} de {total} enviadas, {failed} con error",
+    retryFailed: "Reintentar fallidas",
+    batchStatusPending: "En espera",
+    batchStatusSubmitting: "Enviando...",
+    batchStatusSuccess: "Enviada",
+    batchStatusQueued: "Pendiente de sincronizar",
+    batchStatusApplied: "Ya postulada",
+    batchStatusFailed: "Error",
+    batchAlreadySubmitting:
+      "Ya se está enviando una postulación a esta posición desde su tarjeta.",
+    savedPositions: "Guardadas ({count})",
+    compareJob: "Comparar",
+    comparing: "Comparando",
+    comparisonFull: "Puedes comparar hasta {max} posiciones",
+    comparePositions: "Comparar posiciones ({count}/{max})",
+    clearComparison: "Limpiar comparación",
+    comparisonLegend: "Las filas resaltadas difieren entre las posiciones.",
+    comparisonDiffers: "Difiere",
+    removeFromComparison: "Quitar {title} de la comparación",
+    comparisonLocation: "Ubicación",
+    comparisonSalary: "Salario",
+    comparisonPosted: "Publicada",
+    comparisonApply: "Postularse",
+    jobAlertsTitle: "Alertas de empleo",
+    createJobAlert: "Avisarme de nuevas posiciones para esta búsqueda",
+    jobAlertActive: "Alerta activa para esta búsqueda",
+    removeJobAlert: "Quitar la alerta de {search}",
+    newPositionsBanner: "Nuevas posiciones para tus alertas: {count}",
+    newPositionsNotification: "Nuevas posiciones para tus alertas: {count}",
+    showNewPositions: "Mostrar",
+    notificationsBlocked:
+      "Las notificaciones del navegador están bloqueadas, las nuevas posiciones solo se anunciarán en esta página.",
+
+    // Job details
+    showDetails: "Ver detalles",
+    hideDetails: "Ocultar detalles",
+    jobDescription: "Descripción",
+    jobTags: "Habilidades",
+    noJobDetails: "No se proporcionaron detalles adicionales para esta posición.",
+    postedOn: "Publicado el {date}",
+    salaryRange: "{min} – {max}",
+    salaryFrom: "Desde {amount}",
+    salaryUpTo: "Hasta {amount}",
+    salaryPerYear: "{amount} por año",
+    salaryPerMonth: "{amount} por mes",
+    salaryPerHour: "{amount} por hora",
+    remotePolicyRemote: "Remoto",
+    remotePolicyHybrid: "Híbrido",
+    remotePolicyOnsite: "Presencial",
+    seniorityIntern: "Pasante",
+    seniorityJunior: "Junior",
+    seniorityMid: "Semi senior",
+    senioritySenior: "Senior",
+    seniorityLead: "Líder",
+    employmentFullTime: "Tiempo completo",
+    employmentPartTime: "Medio tiempo",
+    employmentContract: "Contrato",
+    employmentInternship: "Pasantía",
 
     // Login Page
     jobApplicationPortal: "Portal de Aplicación de Trabajos",
@@ -65,18 +349,81 @@ export const translations = {
     emailPlaceholder: "tu.email@ejemplo.com",
     continue: "Continuar",
     authenticating: "Autenticando...",
+    sessionExpired: "Tu sesión expiró. Por favor inicia sesión nuevamente.",
 
     // Errors
     enterEmail: "Por favor ingresa tu email",
+    invalidEmailFormat:
+      "Por favor ingresa una dirección de email válida, por ejemplo nombre@ejemplo.com.",
+    emailNotAllowed:
+      "Este email no tiene acceso al portal. Por favor usa la dirección con la que te postulaste.",
+    emailSuggestion: "¿Quisiste decir {email}?",
     invalidEmail:
       "El email ingresado no está autorizado. Por favor usa una dirección de email válida.",
     authFailed:
       "Error al autenticar. Por favor verifica tu email e intenta nuevamente.",
     enterRepoUrl: "Por favor ingresa la URL del repositorio",
-    invalidGithubUrl:
-      "Por favor ingresa una URL válida de GitHub (ej: https://github.com/usuario/repo)",
+    invalidRepoUrl:
+      "Por favor ingresa una URL válida de repositorio (ej: https://github.com/usuario/repo)",
+    repoUrlUnsupportedProtocol:
+      "Usa una dirección https:// o una dirección SSH (git@host:usuario/repo).",
+    repoUrlUnsupportedHost:
+      "No se aceptan repositorios de este host. Usa uno de los hosts aceptados.",
+    repoUrlMissingRepository:
+      "La URL debe incluir el dueño y el nombre del repositorio (ej: https://github.com/usuario/repo).",
+    repoUrlNotRepository: "Esta es una página del host, no un repositorio.",
+    repoUrlInvalidOwner:
+      "El dueño no es un nombre de usuario, organización o grupo válido para este host.",
+    repoUrlInvalidRepository:
+      "El nombre del repositorio solo puede contener letras, números, \".\", \"-\" y \"_\".",
+    repoUrlCanonical: "Se enviará como {url}",
+    repoHostDetected: "Alojado en {host}",
+    repoHostsAccepted: "Hosts aceptados:",
+    checkingRepository: "Verificando el repositorio…",
+    confirmSubmission: "Confirmar y Enviar",
+    preflightTitle: "Verificación del repositorio",
+    preflightPassed: "El repositorio existe, es público y tiene commits.",
+    preflightDefaultBranch: "Rama por defecto",
+    preflightLastCommit: "Último commit",
+    preflightLanguage: "Lenguaje principal",
+    preflightUnknown: "Desconocido",
+    preflightUnavailable:
+      "No se pudo verificar el repositorio en este momento. Puedes enviarlo de todos modos.",
+    repoNotFound:
+      "Este repositorio no existe o no es público. Verifica la URL y la visibilidad del repositorio.",
+    repoPrivate:
+      "Este repositorio es privado, los revisores no podrán abrirlo. Hazlo público e intenta nuevamente.",
+    repoEmpty: "Este repositorio todavía no tiene commits.",
+    repoArchived:
+      "Este repositorio está archivado. Por favor envía un repositorio en el que sigas trabajando.",
     submitFailed: "Error al enviar la aplicación",
+    applicationNotAccepted:
+      "La aplicación no fue aceptada. Por favor intenta nuevamente.",
     loadJobsFailed: "Error al cargar los trabajos",
+    errorReference: "Referencia: {id}",
+
+    // API Errors
+    apiErrorNetwork:
+      "No se pudo conectar con el servidor. Verifica tu conexión e intenta nuevamente.",
+    apiErrorTimeout:
+      "El servidor tardó demasiado en responder. Por favor intenta nuevamente.",
+    apiErrorUnauthorized:
+      "No estás autorizado. Por favor inicia sesión nuevamente.",
+    apiErrorNotFound: "No se encontró el recurso solicitado.",
+    apiErrorValidation:
+      "El servidor rechazó la solicitud. Revisa los datos e intenta nuevamente.",
+    apiErrorServer:
+      "El servidor tuvo un error. Por favor intenta más tarde.",
+    apiErrorInvalidResponse:
+      "El servidor devolvió datos inesperados. Intenta más tarde o contacta a soporte.",
+    apiErrorAborted: "La solicitud fue cancelada.",
+
+    // Startup configuration
+    configErrorTitle: "El portal no pudo iniciar",
+    configErrorDescription:
+      "La configuración de ejecución tiene problemas. Corrígelos en config.json (o en las variables de build) y recarga la página.",
+    configErrorProfile: "Perfil: {profile}",
+    reload: "Recargar",
 
     // Settings
     theme: "Tema",
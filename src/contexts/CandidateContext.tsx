@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useSyncExternalStore } from "react";
 import type { ReactNode } from "react";
-import { JobService } from "@/services";
+import { AuthService, JobService } from "@/services";
+import { SESSION_CONFIG } from "@/constants";
 import type { Candidate } from "@/models";
 import { CandidateContext } from "./candidate.context";
 
@@ -8,15 +9,21 @@ import { CandidateContext } from "./candidate.context";
 const initialState = {
   candidate: null,
   loading: true,
+  sessionExpired: false,
 };
 
 interface CandidateProviderProps {
   children: ReactNode;
 }
 
+const subscribeToSession = (listener: () => void) =>
+  AuthService.subscribe(listener);
+
+const getSession = () => AuthService.getSession();
+
 // Provider that wraps the application and provides the candidate state
-// This component handles all email authentication logic
-// and data persistence in localStorage
+// This component handles all email authentication logic,
+// the auth session lifecycle and data persistence in localStorage
 export const CandidateProvider: React.FC<CandidateProviderProps> = ({
   children,
 }) => {
@@ -24,39 +31,110 @@ export const CandidateProvider: React.FC<CandidateProviderProps> = ({
     initialState.candidate
   );
   const [loading, setLoading] = useState(initialState.loading);
+  const [sessionExpired, setSessionExpired] = useState(
+    initialState.sessionExpired
+  );
+  const session = useSyncExternalStore(subscribeToSession, getSession);
+
+  // Controller of the login request in flight, aborted on logout or unmount
+  const loginControllerRef = useRef<AbortController | null>(null);
 
   // On app load, checks if there's a saved candidate
   // in localStorage to restore the session
+  // The saved data is validated with decodeCandidate, malformed data is discarded
+  // A candidate without an auth session must log in again, when the API
+  // issues them
   useEffect(() => {
     const savedCandidate = JobService.getCandidateData();
-    if (savedCandidate) {
+    if (
+      savedCandidate &&
+      (AuthService.getSession() || !AuthService.usesTokens())
+    ) {
       setCandidate(savedCandidate);
+    } else {
+      JobService.clearCandidateData();
     }
     setLoading(false);
   }, []);
 
+  useEffect(() => () => loginControllerRef.current?.abort(), []);
+
+  // When the session ends outside of logout (expired token, 401 from the API)
+  // the candidate is logged out and sent back to the login page
+  useEffect(
+    () =>
+      AuthService.onSessionEnded((reason) => {
+        loginControllerRef.current?.abort();
+        JobService.clearCandidateData();
+        setCandidate(null);
+        setSessionExpired(reason !== "logout");
+      }),
+    []
+  );
+
+  // Silently refreshes the access token shortly before it expires
+  // A rejected refresh token ends the session through AuthService
+  useEffect(() => {
+    if (!candidate || !session) {
+      return;
+    }
+
+    const delay = Math.max(
+      session.expiresAt - SESSION_CONFIG.REFRESH_MARGIN_MS - Date.now(),
+      0
+    );
+    const timer = setTimeout(() => {
+      AuthService.refresh().catch(() => undefined);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [candidate, session]);
+
   // Function to log in with email
-  // Calls the API to get the candidate's data
-  // and saves it in state and localStorage
+  // Requests the access token (if the API issues them), then calls the API to
+  // get the candidate's data and saves it in state and localStorage
+  // Without a token (no token endpoint) the candidate lookup alone decides
+  // whether the email is valid
+  // A previous login still in flight is aborted
   const login = async (email: string) => {
+    loginControllerRef.current?.abort();
+    const controller = new AbortController();
+    loginControllerRef.current = controller;
+
     try {
-      const candidateData = await JobService.getCandidateByEmail(email);
+      if (AuthService.usesTokens()) {
+        await AuthService.issueToken(email, { signal: controller.signal });
+      }
+      const candidateData = await JobService.getCandidateByEmail(email, {
+        signal: controller.signal,
+      });
+      setSessionExpired(false);
       setCandidate(candidateData);
     } catch (error) {
+      AuthService.endSession("logout");
       setCandidate(null);
       throw error;
+    } finally {
+      if (loginControllerRef.current === controller) {
+        loginControllerRef.current = null;
+      }
     }
   };
 
   // Function to log out
-  // Clears the state and localStorage
+  // Aborts a pending login, ends the session and clears the state and localStorage
   const logout = () => {
+    loginControllerRef.current?.abort();
+    AuthService.endSession("logout");
     JobService.clearCandidateData();
     setCandidate(null);
+    setSessionExpired(false);
   };
 
   return (
-    <CandidateContext.Provider value={{ candidate, loading, login, logout }}>
+    <CandidateContext.Provider
+      value={{ candidate, loading, sessionExpired, login, logout }}
+    >
       {children}
     </CandidateContext.Provider>
   );
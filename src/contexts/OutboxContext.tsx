@@ -0,0 +1,56 @@
+import React, { useEffect, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import { OutboxService } from "@/services";
+import { useCandidateContext } from "@/hooks/useCandidateContext";
+import { OutboxContext } from "./outbox.context";
+
+interface OutboxProviderProps {
+  children: ReactNode;
+}
+
+// Subscribes to the browser connectivity events
+const subscribeToConnectivity = (listener: () => void) => {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+};
+
+const getIsOnline = () => navigator.onLine;
+
+const subscribeToOutbox = (listener: () => void) =>
+  OutboxService.subscribe(listener);
+
+const getEntries = () => OutboxService.getEntries();
+
+// Provider that exposes the offline application outbox
+// Replays the logged-in candidate's queued applications on login
+// and every time the browser comes back online
+// Must be rendered inside CandidateProvider
+export const OutboxProvider: React.FC<OutboxProviderProps> = ({ children }) => {
+  const entries = useSyncExternalStore(subscribeToOutbox, getEntries);
+  const isOnline = useSyncExternalStore(subscribeToConnectivity, getIsOnline);
+  const { candidate } = useCandidateContext();
+  const candidateId = candidate?.candidateId;
+
+  useEffect(() => {
+    if (isOnline && candidateId) {
+      OutboxService.flush(candidateId);
+    }
+  }, [isOnline, candidateId]);
+
+  const cancel = (uuid: string) => OutboxService.cancel(uuid);
+  const flush = async () => {
+    if (candidateId) {
+      await OutboxService.flush(candidateId);
+    }
+  };
+
+  return (
+    <OutboxContext.Provider value={{ entries, isOnline, cancel, flush }}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
@@ -3,9 +3,11 @@ import type { Candidate } from "@/models";
 
 // Type that defines the candidate context structure
 // Contains the current candidate and functions for login/logout
+// sessionExpired is set when the session ended without the candidate logging out
 export interface CandidateContextType {
   candidate: Candidate | null;
   loading: boolean;
+  sessionExpired: boolean;
   login: (email: string) => Promise<void>;
   logout: () => void;
 }
@@ -9,3 +9,7 @@ export type { ThemeContextType, Theme } from "./theme.context";
 export { LanguageProvider } from "./LanguageContext";
 export { LanguageContext } from "./language.context";
 export type { LanguageContextType, Language } from "./language.context";
+
+export { OutboxProvider } from "./OutboxContext";
+export { OutboxContext } from "./outbox.context";
+export type { OutboxContextType } from "./outbox.context";
@@ -0,0 +1,18 @@
+import { createContext } from "react";
+import type { OutboxEntry } from "@/models";
+
+// Type that defines the offline outbox context structure
+// Exposes the queued applications, the connectivity state and the actions
+// to cancel an entry or replay the outbox by hand
+export interface OutboxContextType {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  cancel: (uuid: string) => void;
+  flush: () => Promise<void>;
+}
+
+// Creates the context that will be shared across the entire application
+// Initially undefined until provided by OutboxProvider
+export const OutboxContext = createContext<OutboxContextType | undefined>(
+  undefined,
+);
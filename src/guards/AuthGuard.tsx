@@ -0,0 +1,40 @@
+import React from "react";
+import { useCandidateContext, useRouter } from "@/hooks";
+import { buildLoginPath } from "@/utils";
+import { Navigate } from "@/components";
+
+/**
+ * Props for the AuthGuard component.
+ *
+ * @property children - Protected content, rendered only for an authenticated candidate.
+ */
+interface AuthGuardProps {
+  children: React.ReactNode;
+}
+
+/**
+ * AuthGuard
+ *
+ * Protects the routes that require an authenticated candidate.
+ *
+ * Functionality:
+ * - Renders its children when a candidate is logged in.
+ * - Otherwise redirects to the login route, remembering the requested
+ *   route (with its query string) so the candidate returns to it after
+ *   logging in. This also applies when the session expires on a page.
+ *
+ * @param props - AuthGuardProps with the protected content.
+ * @returns The protected content, or a redirect to the login route.
+ */
+const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
+  const { candidate } = useCandidateContext();
+  const { href } = useRouter();
+
+  if (!candidate) {
+    return <Navigate to={buildLoginPath(href)} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AuthGuard;
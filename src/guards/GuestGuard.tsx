@@ -0,0 +1,39 @@
+import React from "react";
+import { useCandidateContext, useRouter } from "@/hooks";
+import { getRedirectPath } from "@/utils";
+import { Navigate } from "@/components";
+
+/**
+ * Props for the GuestGuard component.
+ *
+ * @property children - Content for visitors without a session (the login page).
+ */
+interface GuestGuardProps {
+  children: React.ReactNode;
+}
+
+/**
+ * GuestGuard
+ *
+ * Keeps authenticated candidates out of the login route.
+ *
+ * Functionality:
+ * - Renders its children while nobody is logged in.
+ * - Once a candidate logs in, redirects to the route requested before the
+ *   login (the redirect query parameter) or to the jobs list.
+ *
+ * @param props - GuestGuardProps with the guest-only content.
+ * @returns The guest content, or a redirect to the requested route.
+ */
+const GuestGuard: React.FC<GuestGuardProps> = ({ children }) => {
+  const { candidate } = useCandidateContext();
+  const { search } = useRouter();
+
+  if (candidate) {
+    return <Navigate to={getRedirectPath(search)} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default GuestGuard;
@@ -0,0 +1,2 @@
+export { default as AuthGuard } from "./AuthGuard";
+export { default as GuestGuard } from "./GuestGuard";
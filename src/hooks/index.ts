@@ -2,3 +2,16 @@ export * from "./useCandidateContext";
 export * from "./useTheme";
 export * from "./useLanguage";
 export * from "./useTranslation";
+export * from "./useQuery";
+export * from "./useJobs";
+export * from "./useOutbox";
+export * from "./useJobFilters";
+export * from "./useApplicationForm";
+export * from "./useVirtualList";
+export * from "./useApplicationHistory";
+export * from "./useSavedJobs";
+export * from "./useRouter";
+export * from "./useBatchApply";
+export * from "./useSalaryFormatter";
+export * from "./useJobAlerts";
+export * from "./useForm";
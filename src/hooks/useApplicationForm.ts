@@ -0,0 +1,49 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import {
+  applicationForms,
+  getApplicationFormKey,
+  type ApplicationFormState,
+  type ApplicationFormValues,
+  type FormStore,
+} from "@/services";
+
+export interface ApplicationFormResult {
+  formKey: string; // Key of the form in the application form store
+  state: ApplicationFormState;
+  updateState: (updates: Partial<ApplicationFormState>) => void;
+  formStore: FormStore<ApplicationFormValues>; // Store of the fields, for useForm
+}
+
+// Hook that reads and updates the application form of a candidate for a job
+// The state lives in the application form store, so it survives the card
+// unmounting (e.g. when the virtualized list scrolls it out of view)
+export const useApplicationForm = (
+  candidateId: string,
+  jobId: string,
+): ApplicationFormResult => {
+  const formKey = getApplicationFormKey(candidateId, jobId);
+
+  const subscribe = useCallback(
+    (listener: () => void) => applicationForms.subscribe(formKey, listener),
+    [formKey],
+  );
+  const getSnapshot = useCallback(
+    () => applicationForms.getState(formKey),
+    [formKey],
+  );
+
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const updateState = useCallback(
+    (updates: Partial<ApplicationFormState>) =>
+      applicationForms.update(formKey, updates),
+    [formKey],
+  );
+
+  const formStore = useMemo(
+    () => applicationForms.getFormStore(formKey),
+    [formKey],
+  );
+
+  return { formKey, state, updateState, formStore };
+};
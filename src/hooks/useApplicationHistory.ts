@@ -0,0 +1,23 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { ApplicationHistoryService } from "@/services";
+import type { ApplicationRecord } from "@/models";
+
+const subscribe = (listener: () => void) =>
+  ApplicationHistoryService.subscribe(listener);
+
+const getSnapshot = () => ApplicationHistoryService.getRecords();
+
+// Hook that provides the applications sent by a candidate, newest first
+export const useApplicationHistory = (
+  candidateId: string,
+): ApplicationRecord[] => {
+  const records = useSyncExternalStore(subscribe, getSnapshot);
+
+  return useMemo(
+    () =>
+      records
+        .filter((record) => record.candidateId === candidateId)
+        .sort((a, b) => b.appliedAt.localeCompare(a.appliedAt)),
+    [records, candidateId],
+  );
+};
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getErrorTranslationKey, isAbortError, isApiError } from "@/api";
+import {
+  ApplicationHistoryService,
+  JobService,
+  OutboxService,
+  applicationForms,
+  getApplicationFormKey,
+  isOfflineError,
+} from "@/services";
+import { BATCH_APPLY_CONFIG } from "@/constants";
+import type { TranslationKey } from "@/constants";
+import type { ApplyToJobDto, BatchApplyStatus, Candidate, Job } from "@/models";
+import { parseRepositoryUrl, runWithConcurrency } from "@/utils";
+
+// Outcome of the application to one job of a batch
+export interface BatchApplyJobResult {
+  jobId: string;
+  jobTitle: string;
+  status: BatchApplyStatus;
+  error: TranslationKey | null;
+  errorReference: string | null; // Correlation ID of the failed request
+}
+
+export interface BatchApplyState {
+  repoUrl: string; // Repository sent to every job of the batch
+  results: BatchApplyJobResult[];
+  isRunning: boolean;
+}
+
+export interface BatchApplyResult {
+  state: BatchApplyState;
+  submit: (jobs: Job[], repoUrl: string) => void;
+  retryFailed: (jobId?: string) => void; // Retries one failed job, or all of them
+  reset: () => void;
+}
+
+const INITIAL_STATE: BatchApplyState = {
+  repoUrl: "",
+  results: [],
+  isRunning: false,
+};
+
+// Hook that applies one repository to several jobs at once
+// Applications are sent with limited concurrency (BATCH_APPLY_CONFIG), each
+// one retried by JobService like a single submission. The outcome of every
+// job is reported separately, and failed jobs can be retried with the same
+// idempotency key, so a retry never duplicates an application
+// Each job shares its idempotency key with the application form of its card
+// (applicationForms), so the same repository sent from the card and from a
+// batch is recorded once. Jobs already waiting in the outbox are left there,
+// jobs the history shows as applied are skipped, and jobs whose card is
+// sending an application are skipped as failed. While the batch sends a job,
+// the job is registered as submitting in applicationForms, so its card can't
+// send it too
+// Offline failures are queued in the outbox like single submissions
+// The submissions in flight are aborted when the component unmounts
+// Nothing is sent while there's no candidate
+export const useBatchApply = (
+  candidate: Candidate | null,
+): BatchApplyResult => {
+  const [state, setState] = useState<BatchApplyState>(INITIAL_STATE);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateResult = useCallback(
+    (jobId: string, updates: Partial<BatchApplyJobResult>) =>
+      setState((prev) => ({
+        ...prev,
+        results: prev.results.map((result) =>
+          result.jobId === jobId ? { ...result, ...updates } : result,
+        ),
+      })),
+    [],
+  );
+
+  // Sends the application to every given job and records each outcome
+  const run = useCallback(
+    async (
+      jobs: BatchApplyJobResult[],
+      repoUrl: string,
+      { candidateId, applicationId }: Candidate,
+    ) => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      const applyToJob = async ({ jobId, jobTitle }: BatchApplyJobResult) => {
+        const formKey = getApplicationFormKey(candidateId, jobId);
+        const isQueued = OutboxService.getEntries().some(
+          ({ payload, status }) =>
+            payload.jobId === jobId &&
+            payload.candidateId === candidateId &&
+            status !== "failed",
+        );
+
+        if (isQueued) {
+          updateResult(jobId, { status: "queued" });
+          return;
+        }
+
+        const isApplied = ApplicationHistoryService.getRecords().some(
+          (record) =>
+            record.jobId === jobId && record.candidateId === candidateId,
+        );
+
+        if (isApplied) {
+          updateResult(jobId, { status: "applied" });
+          return;
+        }
+
+        if (applicationForms.isSubmitting(formKey)) {
+          updateResult(jobId, {
+            status: "failed",
+            error: "batchAlreadySubmitting",
+            errorReference: null,
+          });
+          return;
+        }
+
+        const payload: ApplyToJobDto = {
+          uuid: applicationForms.getIdempotencyKey(formKey),
+          jobId,
+          candidateId,
+          applicationId,
+          repoUrl,
+        };
+
+        updateResult(jobId, {
+          status: "submitting",
+          error: null,
+          errorReference: null,
+        });
+
+        // The card shows the submission in flight and ignores its own submits
+        const formStore = applicationForms.getFormStore(formKey);
+        const cardSignal = applicationForms.startSubmission(formKey);
+        formStore.setState({ isSubmitting: true });
+
+        try {
+          const response = await JobService.applyToJob(payload, {
+            signal: controller.signal,
+          });
+          if (!response.ok) {
+            updateResult(jobId, {
+              status: "failed",
+              error: "applicationNotAccepted",
+            });
+            return;
+          }
+
+          ApplicationHistoryService.record(payload, response, jobTitle);
+          applicationForms.resetIdempotencyKey(formKey);
+          updateResult(jobId, { status: "success" });
+        } catch (error) {
+          if (isAbortError(error)) {
+            return;
+          }
+
+          if (isOfflineError(error)) {
+            OutboxService.enqueue(payload, jobTitle);
+            applicationForms.resetIdempotencyKey(formKey);
+            updateResult(jobId, { status: "queued" });
+            return;
+          }
+
+          updateResult(jobId, {
+            status: "failed",
+            error: getErrorTranslationKey(error, "submitFailed"),
+            errorReference: isApiError(error)
+              ? (error.correlationId ?? null)
+              : null,
+          });
+        } finally {
+          // An aborted card signal means the session ended and the form was reset
+          if (!cardSignal.aborted) {
+            applicationForms.finishSubmission(formKey);
+            formStore.setState({ isSubmitting: false });
+          }
+        }
+      };
+
+      await runWithConcurrency(
+        jobs,
+        BATCH_APPLY_CONFIG.CONCURRENCY,
+        applyToJob,
+        controller.signal,
+      );
+
+      if (!controller.signal.aborted) {
+        setState((prev) => ({ ...prev, isRunning: false }));
+        controllerRef.current = null;
+      }
+    },
+    [updateResult],
+  );
+
+  const submit = useCallback(
+    (jobs: Job[], repoUrl: string) => {
+      if (!candidate || state.isRunning || jobs.length === 0) {
+        return;
+      }
+
+      // A key left by the card (or a previous batch) for another repository
+      // belongs to that application, so those jobs start a new one
+      // Retries of failed jobs keep their keys
+      jobs.forEach((job) => {
+        const formKey = getApplicationFormKey(candidate.candidateId, job.id);
+        const cardUrl = parseRepositoryUrl(
+          applicationForms.getState(formKey).form.values.repoUrl,
+        );
+        const isSameRepository = cardUrl.ok && cardUrl.canonicalUrl === repoUrl;
+
+        if (
+          !isSameRepository &&
+          !applicationForms.isSubmitting(formKey) &&
+          (repoUrl !== state.repoUrl ||
+            !state.results.some((result) => result.jobId === job.id))
+        ) {
+          applicationForms.resetIdempotencyKey(formKey);
+        }
+      });
+
+      const results: BatchApplyJobResult[] = jobs.map((job) => ({
+        jobId: job.id,
+        jobTitle: job.title,
+        status: "pending",
+        error: null,
+        errorReference: null,
+      }));
+
+      setState({ repoUrl, results, isRunning: true });
+      run(results, repoUrl, candidate);
+    },
+    [candidate, state.isRunning, state.repoUrl, state.results, run],
+  );
+
+  const retryFailed = useCallback(
+    (jobId?: string) => {
+      if (!candidate || state.isRunning) {
+        return;
+      }
+
+      const failed = state.results.filter(
+        (result) =>
+          result.status === "failed" && (!jobId || result.jobId === jobId),
+      );
+
+      if (failed.length === 0) {
+        return;
+      }
+
+      const failedIds = new Set(failed.map((result) => result.jobId));
+      setState((prev) => ({
+        ...prev,
+        isRunning: true,
+        results: prev.results.map((result) =>
+          failedIds.has(result.jobId)
+            ? { ...result, status: "pending" }
+            : result,
+        ),
+      }));
+      run(failed, state.repoUrl, candidate);
+    },
+    [candidate, state, run],
+  );
+
+  const reset = useCallback(() => {
+    if (!state.isRunning) {
+      setState(INITIAL_STATE);
+    }
+  }, [state.isRunning]);
+
+  return { state, submit, retryFailed, reset };
+};
@@ -0,0 +1,358 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type React from "react";
+import type { TranslationKey } from "@/constants/translations.constants";
+import type {
+  FieldErrors,
+  FieldFlags,
+  FormRules,
+  FormState,
+  FormValues,
+} from "@/models";
+import { LocalFormStore } from "@/services";
+import type { FormStore } from "@/services";
+
+// Actions onSubmit can use to report the outcome of the submission
+export interface FormSubmitHelpers<V extends FormValues> {
+  setFieldError: (field: keyof V, error: TranslationKey | null) => void;
+  setFormError: (error: TranslationKey | null) => void;
+  reset: (values?: V) => void;
+}
+
+export interface UseFormOptions<V extends FormValues> {
+  initialValues: V;
+  rules?: FormRules<V>;
+  // Called with the values once every rule passed
+  // Handles its own errors, reporting them through helpers
+  onSubmit: (values: V, helpers: FormSubmitHelpers<V>) => Promise<void> | void;
+  store?: FormStore<V>; // Keeps the state elsewhere instead of in the component
+}
+
+// Props that bind a text input to a field
+export interface FieldProps {
+  name: string;
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onBlur: () => void;
+  "aria-invalid": boolean;
+}
+
+export interface UseFormResult<V extends FormValues> extends FormState<V> {
+  dirty: FieldFlags<V>; // Fields whose value differs from the initial one
+  isDirty: boolean;
+  isValidating: boolean;
+  setValue: (field: keyof V, value: string) => void;
+  touch: (field: keyof V) => void;
+  setFieldError: (field: keyof V, error: TranslationKey | null) => void;
+  setFormError: (error: TranslationKey | null) => void;
+  validate: () => Promise<boolean>;
+  reset: (values?: V) => void;
+  handleSubmit: (event?: React.FormEvent) => Promise<void>;
+  getFieldProps: (field: keyof V & string) => FieldProps;
+}
+
+const hasFlag = <V extends FormValues>(flags: FieldFlags<V>): boolean =>
+  Object.values(flags).some(Boolean);
+
+// Hook that handles the values, validation and submission of a form
+// - Sync rules run when a changed field is left, while a field with an
+//   error is corrected, and on submit; async rules run after them when a
+//   field is left and on submit, and are aborted if the value changes meanwhile
+// - Tracks touched and dirty fields, and the submission in flight: a
+//   second submit is ignored until the first one finishes
+// - Errors are translation keys, per field or for the whole form
+// The state lives in a local store, or in the one given (store), so the
+// same engine backs forms whose state must outlive them
+export const useForm = <V extends FormValues>({
+  initialValues,
+  rules,
+  onSubmit,
+  store: externalStore,
+}: UseFormOptions<V>): UseFormResult<V> => {
+  const [localStore] = useState(() => new LocalFormStore(initialValues));
+  const store = externalStore ?? localStore;
+
+  const state = useSyncExternalStore(
+    useCallback((listener) => store.subscribe(listener), [store]),
+    useCallback(() => store.getState(), [store]),
+  );
+
+  // Latest rules and submit handler, read by the callbacks below
+  const rulesRef = useRef(rules);
+  const onSubmitRef = useRef(onSubmit);
+  useEffect(() => {
+    rulesRef.current = rules;
+    onSubmitRef.current = onSubmit;
+  });
+
+  // Async validations in flight, by field
+  const controllers = useRef(new Map<keyof V, AbortController>());
+
+  const setFlag = useCallback(
+    (key: "touched" | "validating", field: keyof V, value: boolean): void => {
+      const flags = store.getState()[key];
+      if (!!flags[field] !== value) {
+        store.setState({ [key]: { ...flags, [field]: value } });
+      }
+    },
+    [store],
+  );
+
+  const setFieldError = useCallback(
+    (field: keyof V, error: TranslationKey | null): void => {
+      const errors = { ...store.getState().errors };
+
+      if (error) {
+        errors[field] = error;
+      } else {
+        delete errors[field];
+      }
+
+      store.setState({ errors });
+    },
+    [store],
+  );
+
+  const setFormError = useCallback(
+    (error: TranslationKey | null): void =>
+      store.setState({ formError: error }),
+    [store],
+  );
+
+  // Runs the sync rules of a field, returning the first error
+  const runSyncRules = useCallback(
+    (field: keyof V, values: V): TranslationKey | null => {
+      for (const rule of rulesRef.current?.[field]?.sync ?? []) {
+        const error = rule(values[field], values);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    },
+    [],
+  );
+
+  // Runs the async rules of a field, returning the first error
+  // Resolves with undefined when a newer value superseded the validation
+  const runAsyncRules = useCallback(
+    async (
+      field: keyof V,
+      values: V,
+    ): Promise<TranslationKey | null | undefined> => {
+      const asyncRules = rulesRef.current?.[field]?.async ?? [];
+      if (asyncRules.length === 0) {
+        return null;
+      }
+
+      controllers.current.get(field)?.abort();
+      const controller = new AbortController();
+      controllers.current.set(field, controller);
+      setFlag("validating", field, true);
+
+      try {
+        for (const rule of asyncRules) {
+          const error = await rule(values[field], values, controller.signal);
+          if (controller.signal.aborted) {
+            return undefined;
+          }
+          if (error) {
+            return error;
+          }
+        }
+        return null;
+      } catch (err) {
+        if (controller.signal.aborted) {
+          return undefined;
+        }
+        throw err;
+      } finally {
+        if (controllers.current.get(field) === controller) {
+          controllers.current.delete(field);
+          setFlag("validating", field, false);
+        }
+      }
+    },
+    [setFlag],
+  );
+
+  // Updates a field, revalidating it if it's already showing an error
+  // A new value also clears the error of the form, which was about the old one
+  const setValue = useCallback(
+    (field: keyof V, value: string): void => {
+      const current = store.getState();
+      const values = { ...current.values, [field]: value };
+
+      controllers.current.get(field)?.abort();
+      store.setState({ values, formError: null });
+
+      if (current.errors[field]) {
+        setFieldError(field, runSyncRules(field, values));
+      }
+    },
+    [store, runSyncRules, setFieldError],
+  );
+
+  // Marks a field as touched when it's left and validates it
+  // Leaving a field that wasn't changed only validates it after a submit,
+  // so tabbing through an empty form doesn't fill it with errors
+  const touch = useCallback(
+    (field: keyof V): void => {
+      const { values, initialValues, submitCount } = store.getState();
+      setFlag("touched", field, true);
+
+      if (values[field] === initialValues[field] && submitCount === 0) {
+        return;
+      }
+
+      const error = runSyncRules(field, values);
+      setFieldError(field, error);
+
+      if (!error) {
+        runAsyncRules(field, values).then((asyncError) => {
+          if (asyncError !== undefined) {
+            setFieldError(field, asyncError);
+          }
+        });
+      }
+    },
+    [store, setFlag, runSyncRules, runAsyncRules, setFieldError],
+  );
+
+  // Validates every field with rules, marking them as touched
+  // Resolves with whether the form is valid
+  const validate = useCallback(async (): Promise<boolean> => {
+    const { values, touched } = store.getState();
+    const fields = Object.keys(rulesRef.current ?? {}) as (keyof V)[];
+    const errors: FieldErrors<V> = {};
+
+    fields.forEach((field) => {
+      const error = runSyncRules(field, values);
+      if (error) {
+        errors[field] = error;
+      }
+    });
+
+    const asyncErrors = await Promise.all(
+      fields
+        .filter((field) => !errors[field])
+        .map(
+          async (field) => [field, await runAsyncRules(field, values)] as const,
+        ),
+    );
+    asyncErrors.forEach(([field, error]) => {
+      if (error) {
+        errors[field] = error;
+      }
+    });
+
+    store.setState({
+      errors,
+      touched: {
+        ...touched,
+        ...Object.fromEntries(fields.map((field) => [field, true])),
+      },
+    });
+
+    return (
+      Object.keys(errors).length === 0 &&
+      asyncErrors.every(([, error]) => error !== undefined)
+    );
+  }, [store, runSyncRules, runAsyncRules]);
+
+  // Goes back to the initial values (or new ones), forgetting errors and flags
+  const reset = useCallback(
+    (values?: V): void => {
+      controllers.current.forEach((controller) => controller.abort());
+      controllers.current.clear();
+
+      const initial = values ?? store.getState().initialValues;
+      store.setState({
+        values: initial,
+        initialValues: initial,
+        errors: {},
+        formError: null,
+        touched: {},
+        validating: {},
+      });
+    },
+    [store],
+  );
+
+  // Validates the form and, when valid, calls onSubmit with its values
+  const handleSubmit = useCallback(
+    async (event?: React.FormEvent): Promise<void> => {
+      event?.preventDefault();
+
+      const { isSubmitting, submitCount } = store.getState();
+      if (isSubmitting) {
+        return;
+      }
+
+      store.setState({
+        isSubmitting: true,
+        submitCount: submitCount + 1,
+        formError: null,
+      });
+
+      try {
+        if (await validate()) {
+          await onSubmitRef.current(store.getState().values, {
+            setFieldError,
+            setFormError,
+            reset,
+          });
+        }
+      } finally {
+        store.setState({ isSubmitting: false });
+      }
+    },
+    [store, validate, setFieldError, setFormError, reset],
+  );
+
+  const getFieldProps = useCallback(
+    (field: keyof V & string): FieldProps => ({
+      name: field,
+      value: state.values[field] ?? "",
+      onChange: (event) => setValue(field, event.target.value),
+      onBlur: () => touch(field),
+      "aria-invalid": !!state.errors[field],
+    }),
+    [state.values, state.errors, setValue, touch],
+  );
+
+  const dirty = useMemo(() => {
+    const flags: FieldFlags<V> = {};
+    (Object.keys(state.values) as (keyof V)[]).forEach((field) => {
+      flags[field] = state.values[field] !== state.initialValues[field];
+    });
+    return flags;
+  }, [state.values, state.initialValues]);
+
+  // Pending validations are dropped with the form
+  useEffect(() => {
+    const pending = controllers.current;
+    return () => pending.forEach((controller) => controller.abort());
+  }, []);
+
+  return {
+    ...state,
+    dirty,
+    isDirty: hasFlag(dirty),
+    isValidating: hasFlag(state.validating),
+    setValue,
+    touch,
+    setFieldError,
+    setFormError,
+    validate,
+    reset,
+    handleSubmit,
+    getFieldProps,
+  };
+};
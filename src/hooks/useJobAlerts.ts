@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { envConfig } from "@/config";
+import { JobAlertsService, JobService, queryCache } from "@/services";
+import { CACHE_CONFIG, JOB_ALERTS_CONFIG, QUERY_KEYS } from "@/constants";
+import type { Job, JobAlert, JobListPage } from "@/models";
+import { useTranslation } from "./useTranslation";
+
+export interface JobAlertsResult {
+  alerts: JobAlert[];
+  newJobIds: string[]; // New jobs matching an alert the candidate hasn't looked at
+  addAlert: (search: string) => void;
+  removeAlert: (alertId: string) => void;
+  dismissNew: () => void;
+}
+
+const subscribe = (listener: () => void) =>
+  JobAlertsService.subscribe(listener);
+
+const NOTIFICATION_TAG = "job-alerts";
+
+// Gets the jobs list for a check, and whether it's the whole catalog
+// The list cached by useJobs is reused while it's fresh; otherwise the first
+// pages are fetched, at most JOB_ALERTS_CONFIG.MAX_PAGES
+// A cursor returned twice ends the list instead of looping over it
+const fetchJobsForAlerts = async (
+  signal: AbortSignal,
+): Promise<{ jobs: Job[]; isComplete: boolean }> => {
+  const cached = queryCache.getState<JobListPage>(QUERY_KEYS.JOBS).data;
+
+  if (
+    cached &&
+    !queryCache.isStale(QUERY_KEYS.JOBS, CACHE_CONFIG.JOBS_TTL_MS)
+  ) {
+    return { jobs: cached.jobs, isComplete: !cached.nextCursor };
+  }
+
+  const jobs = new Map<string, Job>();
+  const cursors = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    if (cursor) {
+      cursors.add(cursor);
+    }
+
+    const page = await JobService.getJobsList({ signal, cursor });
+    page.jobs.forEach((job) => jobs.set(job.id, job));
+    cursor = page.nextCursor;
+  } while (
+    cursor &&
+    !cursors.has(cursor) &&
+    cursors.size + 1 < JOB_ALERTS_CONFIG.MAX_PAGES
+  );
+
+  return {
+    jobs: [...jobs.values()],
+    isComplete: !cursor || cursors.has(cursor),
+  };
+};
+
+const canNotify = (): boolean =>
+  "Notification" in window && Notification.permission === "granted";
+
+// Hook that provides the job alerts of a candidate and checks them
+// While the candidate has alerts, the jobs list is fetched every
+// envConfig.alerts.pollInterval milliseconds and diffed against the previous
+// check; new matching jobs raise a browser notification (when the candidate
+// allowed them) and are kept as new for the in-app banner
+// The time of the last check is persisted, so remounting or reloading the
+// page doesn't check again before the interval is over
+// Checks are skipped while offline, and failed ones wait for the next interval
+export const useJobAlerts = (candidateId: string): JobAlertsResult => {
+  const { t } = useTranslation();
+
+  const getSnapshot = useCallback(
+    () => JobAlertsService.getState(candidateId),
+    [candidateId],
+  );
+  const { alerts, newJobIds } = useSyncExternalStore(subscribe, getSnapshot);
+  const hasAlerts = alerts.length > 0;
+
+  // Latest notifier, so a language change doesn't restart the checks
+  const notifyRef = useRef<(jobs: Job[]) => void>(() => {});
+
+  useEffect(() => {
+    notifyRef.current = (jobs) => {
+      if (!canNotify()) {
+        return;
+      }
+
+      const notification = new Notification(
+        t("newPositionsNotification", { count: jobs.length }),
+        {
+          body: jobs.map((job) => job.title).join(", "),
+          tag: NOTIFICATION_TAG,
+        },
+      );
+      notification.onclick = () => window.focus();
+    };
+  });
+
+  useEffect(() => {
+    if (!candidateId || !hasAlerts) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const interval = envConfig.alerts.pollInterval;
+    let timer: number | undefined;
+
+    const check = async () => {
+      if (navigator.onLine) {
+        try {
+          const { jobs, isComplete } = await fetchJobsForAlerts(
+            controller.signal,
+          );
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          const matches = JobAlertsService.check(candidateId, jobs, isComplete);
+          if (matches.length > 0) {
+            notifyRef.current(matches);
+          }
+        } catch {
+          // Aborted, or failed: the next interval tries again
+        }
+      }
+
+      if (!controller.signal.aborted) {
+        timer = window.setTimeout(check, interval);
+      }
+    };
+
+    const { checkedAt } = JobAlertsService.getState(candidateId);
+    const elapsed = checkedAt ? Date.now() - Date.parse(checkedAt) : interval;
+    timer = window.setTimeout(check, Math.max(0, interval - elapsed));
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [candidateId, hasAlerts]);
+
+  // Asking on subscription keeps the permission prompt tied to a user action
+  const addAlert = useCallback(
+    (search: string) => {
+      JobAlertsService.addAlert(candidateId, search);
+
+      if ("Notification" in window && Notification.permission === "default") {
+        Notification.requestPermission();
+      }
+    },
+    [candidateId],
+  );
+
+  const removeAlert = useCallback(
+    (alertId: string) => JobAlertsService.removeAlert(candidateId, alertId),
+    [candidateId],
+  );
+
+  const dismissNew = useCallback(
+    () => JobAlertsService.dismissNew(candidateId),
+    [candidateId],
+  );
+
+  return { alerts, newJobIds, addAlert, removeAlert, dismissNew };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import type { JobFilters } from "@/models";
+import { DEFAULT_JOB_FILTERS } from "@/constants";
+import {
+  getLocationSearch,
+  parseJobFilters,
+  replaceSearchParams,
+  serializeJobFilters,
+  subscribeToLocation,
+} from "@/utils";
+
+interface JobFiltersResult {
+  filters: JobFilters;
+  updateFilters: (updates: Partial<JobFilters>) => void;
+  resetFilters: () => void; // Clears the search and filters, keeping the sort
+}
+
+// Hook that keeps the jobs list search, filters and sort in the URL
+// query string, so a filtered view can be bookmarked, shared or reloaded
+export const useJobFilters = (): JobFiltersResult => {
+  const search = useSyncExternalStore(subscribeToLocation, getLocationSearch);
+
+  const filters = useMemo(
+    () => parseJobFilters(new URLSearchParams(search)),
+    [search],
+  );
+
+  const updateFilters = useCallback((updates: Partial<JobFilters>) => {
+    const current = new URLSearchParams(getLocationSearch());
+    const next = { ...parseJobFilters(current), ...updates };
+    replaceSearchParams(serializeJobFilters(next, current));
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    updateFilters({
+      query: DEFAULT_JOB_FILTERS.query,
+      remotePolicy: undefined,
+      seniority: undefined,
+      employmentType: undefined,
+      savedOnly: false,
+    });
+  }, [updateFilters]);
+
+  return { filters, updateFilters, resetFilters };
+};
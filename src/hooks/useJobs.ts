@@ -0,0 +1,101 @@
+import { useCallback, useState } from "react";
+import { isAbortError } from "@/api";
+import { JobService, queryCache, type QueryFetcher } from "@/services";
+import { CACHE_CONFIG, QUERY_KEYS } from "@/constants";
+import type { Job, JobListPage } from "@/models";
+import { useQuery, type QueryResult } from "./useQuery";
+
+export interface JobsResult extends QueryResult<Job[]> {
+  hasMore: boolean; // Whether the API has more pages to load
+  isLoadingMore: boolean;
+  loadMoreFailed: boolean; // The last page failed to load; loadMore retries it
+  loadMore: () => void;
+}
+
+// Appends a page, skipping jobs already loaded (the catalog may shift
+// between requests)
+const mergeJobs = (loaded: Job[], page: Job[]): Job[] => {
+  const ids = new Set(loaded.map((job) => job.id));
+  return [...loaded, ...page.filter((job) => !ids.has(job.id))];
+};
+
+const getLoadedJobs = (): JobListPage | undefined =>
+  queryCache.getState<JobListPage>(QUERY_KEYS.JOBS).data;
+
+// Loads the list from the first page, following the cursors until as many
+// jobs as were loaded before are fetched again, so a revalidation doesn't
+// collapse a list the candidate already scrolled through
+const fetchJobs: QueryFetcher<JobListPage> = async (signal) => {
+  const minCount = getLoadedJobs()?.jobs.length ?? 0;
+  let jobs: Job[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await JobService.getJobsList({ signal, cursor });
+    jobs = mergeJobs(jobs, page.jobs);
+    cursor = page.nextCursor;
+  } while (cursor && jobs.length < minCount);
+
+  return { jobs, nextCursor: cursor };
+};
+
+// Loads the page after the cached ones and appends it
+const fetchNextPage: QueryFetcher<JobListPage> = async (signal) => {
+  const loaded = getLoadedJobs();
+
+  if (!loaded?.nextCursor) {
+    return loaded ?? fetchJobs(signal);
+  }
+
+  const page = await JobService.getJobsList({
+    signal,
+    cursor: loaded.nextCursor,
+  });
+  return {
+    jobs: mergeJobs(loaded.jobs, page.jobs),
+    nextCursor: page.nextCursor,
+  };
+};
+
+// Hook that provides the list of available jobs from the shared query cache
+// Every view using it shares the same cached list and in-flight request,
+// which is aborted when the last of them unmounts
+// The list is paginated: loadMore appends the next page to the cached list
+export const useJobs = (): JobsResult => {
+  const query = useQuery(QUERY_KEYS.JOBS, fetchJobs, {
+    ttl: CACHE_CONFIG.JOBS_TTL_MS,
+  });
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+
+  const hasMore = !!query.data?.nextCursor;
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || isLoadingMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    setLoadMoreFailed(false);
+
+    queryCache
+      .fetch(QUERY_KEYS.JOBS, fetchNextPage)
+      .catch((error: unknown) => {
+        if (!isAbortError(error)) {
+          setLoadMoreFailed(true);
+        }
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [hasMore, isLoadingMore]);
+
+  return {
+    ...query,
+    data: query.data?.jobs,
+    // Loading the next page is not a refresh of the list
+    isRefreshing: query.isRefreshing && !isLoadingMore,
+    hasMore,
+    isLoadingMore,
+    loadMoreFailed,
+    loadMore,
+  };
+};
@@ -0,0 +1,15 @@
+import { useContext } from "react";
+import { OutboxContext } from "@/contexts/outbox.context";
+import type { OutboxContextType } from "@/contexts/outbox.context";
+
+// Custom hook to access the offline outbox context
+// Validates that it's being used inside the OutboxProvider
+export const useOutbox = (): OutboxContextType => {
+  const context = useContext(OutboxContext);
+
+  if (context === undefined) {
+    throw new Error("useOutbox must be used within an OutboxProvider");
+  }
+
+  return context;
+};
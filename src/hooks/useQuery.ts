@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { queryCache, type QueryFetcher } from "@/services";
+
+export interface QueryOptions {
+  ttl: number; // Milliseconds during which cached data is considered fresh
+  revalidateOnFocus?: boolean; // Refetch stale data when the window regains focus
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isLoading: boolean; // Fetching with no cached data to show
+  isRefreshing: boolean; // Fetching in the background while showing cached data
+  refresh: () => void;
+}
+
+// Hook that reads a query from the shared query cache
+// Implements stale-while-revalidate: cached data is returned immediately
+// and refetched in the background when older than the ttl
+// The fetcher must be stable (module-level or memoized) since it's an effect dependency
+export const useQuery = <T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  { ttl, revalidateOnFocus = true }: QueryOptions,
+): QueryResult<T> => {
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(key, listener),
+    [key],
+  );
+  const getSnapshot = useCallback(() => queryCache.getState<T>(key), [key]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Errors are kept in the cache state, so the returned promise is silenced
+  const refresh = useCallback(() => {
+    queryCache.fetch(key, fetcher).catch(() => undefined);
+  }, [key, fetcher]);
+
+  const revalidate = useCallback(() => {
+    if (queryCache.isStale(key, ttl)) {
+      refresh();
+    }
+  }, [key, ttl, refresh]);
+
+  // Fetches on mount if there's no fresh data in the cache
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  // Revalidates stale data when the user comes back to the tab
+  useEffect(() => {
+    if (!revalidateOnFocus) {
+      return;
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        revalidate();
+      }
+    };
+
+    window.addEventListener("focus", revalidate);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener("focus", revalidate);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [revalidateOnFocus, revalidate]);
+
+  const hasData = state.data !== undefined;
+
+  return {
+    data: state.data,
+    error: state.error,
+    updatedAt: state.updatedAt,
+    isLoading: state.isFetching && !hasData,
+    isRefreshing: state.isFetching && hasData,
+    refresh,
+  };
+};
@@ -0,0 +1,29 @@
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  getLocationHref,
+  navigateTo,
+  subscribeToLocation,
+  type NavigateOptions,
+} from "@/utils";
+
+interface RouterResult {
+  href: string; // Current route with its query string
+  path: string;
+  search: string; // Query string of the route, including the leading "?"
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+// Hook that provides the current route of the hash router and navigation
+export const useRouter = (): RouterResult => {
+  const href = useSyncExternalStore(subscribeToLocation, getLocationHref);
+
+  return useMemo(() => {
+    const index = href.indexOf("?");
+    return {
+      href,
+      path: index === -1 ? href : href.slice(0, index),
+      search: index === -1 ? "" : href.slice(index),
+      navigate: navigateTo,
+    };
+  }, [href]);
+};
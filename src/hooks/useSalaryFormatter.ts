@@ -0,0 +1,37 @@
+import type { SalaryRange } from "@/models";
+import { SALARY_PERIOD_TRANSLATION_KEYS } from "@/constants";
+import { formatCurrency } from "@/utils";
+import { useTranslation } from "./useTranslation";
+
+// Hook that formats salary ranges in the current language,
+// e.g. "$48,000 – $65,000 per year"
+// A salary always has a minimum or a maximum amount
+export const useSalaryFormatter = () => {
+  const { t, language } = useTranslation();
+
+  const formatSalary = ({
+    min,
+    max,
+    currency,
+    period,
+  }: SalaryRange): string => {
+    const format = (amount: number) =>
+      formatCurrency(amount, currency, language);
+
+    let amount: string;
+    if (min !== undefined && max !== undefined && min !== max) {
+      amount = t("salaryRange", { min: format(min), max: format(max) });
+    } else if (min !== undefined) {
+      amount =
+        max === undefined
+          ? t("salaryFrom", { amount: format(min) })
+          : format(min);
+    } else {
+      amount = t("salaryUpTo", { amount: format(max ?? 0) });
+    }
+
+    return t(SALARY_PERIOD_TRANSLATION_KEYS[period], { amount });
+  };
+
+  return formatSalary;
+};
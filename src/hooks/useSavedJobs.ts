@@ -0,0 +1,34 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { SavedJobsService } from "@/services";
+
+interface SavedJobsResult {
+  savedJobIds: ReadonlySet<string>;
+  isSaved: (jobId: string) => boolean;
+  toggleSaved: (jobId: string) => void;
+}
+
+const subscribe = (listener: () => void) =>
+  SavedJobsService.subscribe(listener);
+
+// Hook that provides the jobs a candidate saved and toggles them
+export const useSavedJobs = (candidateId: string): SavedJobsResult => {
+  const getSnapshot = useCallback(
+    () => SavedJobsService.getSavedJobIds(candidateId),
+    [candidateId],
+  );
+
+  const ids = useSyncExternalStore(subscribe, getSnapshot);
+  const savedJobIds = useMemo(() => new Set(ids), [ids]);
+
+  const isSaved = useCallback(
+    (jobId: string) => savedJobIds.has(jobId),
+    [savedJobIds],
+  );
+
+  const toggleSaved = useCallback(
+    (jobId: string) => SavedJobsService.toggle(candidateId, jobId),
+    [candidateId],
+  );
+
+  return { savedJobIds, isSaved, toggleSaved };
+};
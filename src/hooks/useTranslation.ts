@@ -4,13 +4,25 @@ import {
   type TranslationKey,
 } from "@/constants/translations.constants";
 
+// Values interpolated into {placeholder} tokens of a translation
+export type TranslationParams = Record<string, string | number>;
+
 // Hook to get translations based on the selected language
-// Returns a function that accepts a key and returns the translated text
+// Returns a function that accepts a key (and optional placeholder values)
+// and returns the translated text
 export const useTranslation = () => {
   const { language } = useLanguage();
 
-  const t = (key: TranslationKey): string => {
-    return translations[language][key];
+  const t = (key: TranslationKey, params?: TranslationParams): string => {
+    const text: string = translations[language][key];
+
+    if (!params) {
+      return text;
+    }
+
+    return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match,
+    );
   };
 
   return { t, language };
@@ -0,0 +1,150 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { RefObject } from "react";
+
+export interface VirtualListOptions {
+  keys: string[]; // Stable key of each item, in display order
+  estimateSize: number; // Height in pixels assumed until an item is measured
+  gap: number; // Space between items in pixels, must match the CSS gap
+  overscan: number; // Extra pixels rendered above and below the viewport
+}
+
+export interface VirtualListResult<T extends HTMLElement> {
+  containerRef: RefObject<T | null>;
+  start: number; // Index of the first rendered item
+  end: number; // Index after the last rendered item
+  paddingTop: number; // Space taken by the items above the rendered ones
+  paddingBottom: number; // Space taken by the items below the rendered ones
+}
+
+// Attribute that identifies each rendered item so it can be measured
+export const VIRTUAL_ITEM_KEY_ATTRIBUTE = "data-virtual-key";
+
+// Scroll positions are rounded to this step so scrolling within a step
+// doesn't re-render the list (the overscan covers the difference)
+const SCROLL_STEP = 50;
+
+const subscribeToViewport = (listener: () => void) => {
+  window.addEventListener("scroll", listener, { passive: true });
+  window.addEventListener("resize", listener);
+  return () => {
+    window.removeEventListener("scroll", listener);
+    window.removeEventListener("resize", listener);
+  };
+};
+
+// Hook that virtualizes a vertical list scrolled with the window
+// Only the items near the viewport are rendered; the space of the others
+// is kept with padding so the scrollbar matches the full list
+// Items may have any height: each rendered item (a direct child of the
+// container with the data-virtual-key attribute) is measured, and its
+// height is remembered by key after it unmounts
+export const useVirtualList = <T extends HTMLElement>({
+  keys,
+  estimateSize,
+  gap,
+  overscan,
+}: VirtualListOptions): VirtualListResult<T> => {
+  const containerRef = useRef<T>(null);
+  const [sizes, setSizes] = useState<ReadonlyMap<string, number>>(new Map());
+
+  // Viewport relative to the top of the list, as "scrollTop:height"
+  const getViewport = useCallback(() => {
+    const top = containerRef.current?.getBoundingClientRect().top ?? 0;
+    const scrollTop = Math.max(-top, 0);
+    return `${Math.floor(scrollTop / SCROLL_STEP) * SCROLL_STEP}:${window.innerHeight}`;
+  }, []);
+
+  const viewport = useSyncExternalStore(subscribeToViewport, getViewport);
+
+  // Measures the rendered items, including the ones mounted later
+  useEffect(() => {
+    const container = containerRef.current;
+
+    if (!container) {
+      return;
+    }
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      setSizes((prev) => {
+        let next = prev;
+
+        entries.forEach((entry) => {
+          const key = entry.target.getAttribute(VIRTUAL_ITEM_KEY_ATTRIBUTE);
+          const height =
+            entry.borderBoxSize?.[0]?.blockSize ??
+            entry.target.getBoundingClientRect().height;
+
+          if (key && height > 0 && next.get(key) !== height) {
+            next = new Map(next).set(key, height);
+          }
+        });
+
+        return next;
+      });
+    });
+
+    const observeItems = () =>
+      container
+        .querySelectorAll(`:scope > [${VIRTUAL_ITEM_KEY_ATTRIBUTE}]`)
+        .forEach((item) => resizeObserver.observe(item));
+
+    const mutationObserver = new MutationObserver((mutations) => {
+      mutations.forEach(({ removedNodes }) =>
+        removedNodes.forEach((node) => {
+          if (node instanceof Element) {
+            resizeObserver.unobserve(node);
+          }
+        }),
+      );
+      observeItems();
+    });
+
+    observeItems();
+    mutationObserver.observe(container, { childList: true });
+
+    return () => {
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+    };
+  }, []);
+
+  // Top offset of every item, plus the total height as the last element
+  const offsets = useMemo(() => {
+    const result = [0];
+    keys.forEach((key, index) => {
+      result.push(result[index] + (sizes.get(key) ?? estimateSize) + gap);
+    });
+    return result;
+  }, [keys, sizes, estimateSize, gap]);
+
+  const [scrollTop, viewportHeight] = viewport.split(":").map(Number);
+  const visibleTop = scrollTop - overscan;
+  const visibleBottom = scrollTop + viewportHeight + overscan;
+
+  let start = 0;
+  while (start < keys.length && offsets[start + 1] - gap < visibleTop) {
+    start++;
+  }
+
+  let end = start;
+  while (end < keys.length && offsets[end] < visibleBottom) {
+    end++;
+  }
+
+  const totalHeight = Math.max(offsets[keys.length] - gap, 0);
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: Math.max(totalHeight - (offsets[end] - gap), 0),
+  };
+};
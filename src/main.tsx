@@ -2,21 +2,55 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
-import { CandidateProvider, ThemeProvider, LanguageProvider } from "@/contexts";
+import {
+  CandidateProvider,
+  ThemeProvider,
+  LanguageProvider,
+  OutboxProvider,
+} from "@/contexts";
+import { ConfigErrorPage } from "@/pages";
+import { applyEnvConfig, loadRuntimeConfig } from "@/config";
+import { configureApiClient } from "@/api";
+
+const root = createRoot(document.getElementById("root")!);
 
 // Application entry point
+// Loads the runtime configuration (config.json merged over the build-time
+// defaults) before rendering anything that talks to the API
+// If the configuration is invalid, a startup screen lists the problems
 // Wraps App in multiple providers to provide global contexts:
 // - ThemeProvider: manages the theme (dark/light)
 // - LanguageProvider: manages the language (en/es)
 // - CandidateProvider: manages candidate authentication
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <ThemeProvider>
-      <LanguageProvider>
-        <CandidateProvider>
-          <App />
-        </CandidateProvider>
-      </LanguageProvider>
-    </ThemeProvider>
-  </StrictMode>
-);
+// - OutboxProvider: replays applications queued while offline
+loadRuntimeConfig().then((result) => {
+  if (!result.ok) {
+    root.render(
+      <StrictMode>
+        <ThemeProvider>
+          <LanguageProvider>
+            <ConfigErrorPage issues={result.issues} profile={result.profile} />
+          </LanguageProvider>
+        </ThemeProvider>
+      </StrictMode>
+    );
+    return;
+  }
+
+  applyEnvConfig(result.config);
+  configureApiClient(result.config);
+
+  root.render(
+    <StrictMode>
+      <ThemeProvider>
+        <LanguageProvider>
+          <CandidateProvider>
+            <OutboxProvider>
+              <App />
+            </OutboxProvider>
+          </CandidateProvider>
+        </LanguageProvider>
+      </ThemeProvider>
+    </StrictMode>
+  );
+});
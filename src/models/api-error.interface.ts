@@ -0,0 +1,11 @@
+// Categories of API failures surfaced to the UI
+// Each kind maps to a translated message in API_ERROR_TRANSLATION_KEYS
+export type ApiErrorKind =
+  | "network" // No response received from the server
+  | "timeout" // The request exceeded the configured timeout
+  | "unauthorized" // 401/403 responses
+  | "not-found" // 404 responses
+  | "validation" // 400/409/422 responses or rejected input
+  | "server" // 5xx and any other unexpected status
+  | "invalid-response" // The response doesn't match the expected model
+  | "aborted"; // Cancelled through an AbortSignal, never shown to the user
@@ -0,0 +1,45 @@
+import {
+  arrayDecoder,
+  dateDecoder,
+  objectDecoder,
+  oneOfDecoder,
+  optionalDecoder,
+  recordDecoder,
+  stringDecoder,
+} from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import { APPLICATION_STATUSES } from "@/constants/job.constants";
+import type {
+  ApplicationDraft,
+  ApplicationDrafts,
+  ApplicationRecord,
+} from "./application.interface";
+
+const applicationRecordDecoder: Decoder<ApplicationRecord> =
+  objectDecoder<ApplicationRecord>({
+    uuid: stringDecoder,
+    jobId: stringDecoder,
+    jobTitle: optionalDecoder(stringDecoder),
+    candidateId: stringDecoder,
+    repoUrl: stringDecoder,
+    appliedAt: dateDecoder,
+    status: oneOfDecoder(APPLICATION_STATUSES),
+  });
+
+// Decodes the persisted application history, dropping malformed records
+export const decodeApplicationHistory = (value: unknown): ApplicationRecord[] =>
+  arrayDecoder(applicationRecordDecoder, { skipInvalid: true })(
+    value,
+    "applicationHistory",
+  );
+
+const applicationDraftsDecoder: Decoder<ApplicationDrafts> = recordDecoder(
+  objectDecoder<ApplicationDraft>({
+    repoUrl: stringDecoder,
+    savedAt: dateDecoder,
+  }),
+);
+
+// Decodes the persisted drafts, dropping malformed ones
+export const decodeApplicationDrafts = (value: unknown): ApplicationDrafts =>
+  applicationDraftsDecoder(value, "applicationDrafts");
@@ -0,0 +1,35 @@
+// Status of an application as reported by the server
+export type ApplicationStatus =
+  | "received" // Recorded by the server, not reviewed yet
+  | "in_review"
+  | "accepted"
+  | "rejected";
+
+// Progress of the application to one job of a batch submission
+export type BatchApplyStatus =
+  | "pending" // Waiting for a free slot
+  | "submitting"
+  | "success"
+  | "queued" // Offline, queued in the outbox
+  | "applied" // Skipped, the candidate already applied to the job
+  | "failed";
+
+// Application the candidate sent, kept in the "My applications" history
+export interface ApplicationRecord {
+  uuid: string; // Idempotency key of the submission
+  jobId: string;
+  jobTitle?: string; // Title of the job when it was applied to
+  candidateId: string;
+  repoUrl: string; // Repository sent with the application
+  appliedAt: string; // ISO date when the server accepted the submission
+  status: ApplicationStatus;
+}
+
+// Repository URL typed in a job card and not submitted yet
+export interface ApplicationDraft {
+  repoUrl: string;
+  savedAt: string; // ISO date of the last change
+}
+
+// Drafts of every candidate, keyed by "candidateId:jobId"
+export type ApplicationDrafts = Record<string, ApplicationDraft>;
@@ -0,0 +1,22 @@
+import { numberDecoder, objectDecoder, stringDecoder } from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import type { AuthSession, AuthTokenResponse } from "./auth.interface";
+
+const authTokenResponseDecoder: Decoder<AuthTokenResponse> =
+  objectDecoder<AuthTokenResponse>({
+    accessToken: stringDecoder,
+    refreshToken: stringDecoder,
+    expiresIn: numberDecoder,
+  });
+
+const authSessionDecoder: Decoder<AuthSession> = objectDecoder<AuthSession>({
+  accessToken: stringDecoder,
+  refreshToken: stringDecoder,
+  expiresAt: numberDecoder,
+});
+
+export const decodeAuthTokenResponse = (value: unknown): AuthTokenResponse =>
+  authTokenResponseDecoder(value, "authTokenResponse");
+
+export const decodeAuthSession = (value: unknown): AuthSession =>
+  authSessionDecoder(value, "authSession");
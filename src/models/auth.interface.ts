@@ -0,0 +1,19 @@
+// Server response when issuing or refreshing an access token
+export interface AuthTokenResponse {
+  accessToken: string; // Bearer token sent with every request
+  refreshToken: string; // Long-lived token used to get a new access token
+  expiresIn: number; // Lifetime of the access token in seconds
+}
+
+// Session stored on the client after a successful token issuance
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // Epoch milliseconds when the access token expires
+}
+
+// Why a session ended
+export type SessionEndReason =
+  | "logout" // The candidate signed out
+  | "expired" // The token expired and could not be refreshed
+  | "unauthorized"; // The API rejected the token with a 401
@@ -0,0 +1,12 @@
+// Addresses allowed to sign in, from the auth.allowedEmails setting
+// Empty lists accept any address
+export interface EmailAllowlist {
+  domains: string[]; // Lowercase, e.g. "acme.com"
+  addresses: string[]; // Lowercase, e.g. "jane@partner.org"
+}
+
+// Why an email was rejected before contacting the API
+export type EmailErrorReason =
+  | "empty"
+  | "invalid-format" // Not a "name@domain.tld" address
+  | "not-allowed"; // Neither the address nor its domain is in the allowlist
@@ -0,0 +1,47 @@
+import type { TranslationKey } from "@/constants/translations.constants";
+
+// Values of a form handled by useForm, one text per field
+export type FormValues = Record<string, string>;
+
+export type FieldErrors<V extends FormValues> = Partial<
+  Record<keyof V, TranslationKey>
+>;
+
+export type FieldFlags<V extends FormValues> = Partial<
+  Record<keyof V, boolean>
+>;
+
+// State of a form handled by useForm, replaced (never mutated) on every change
+export interface FormState<V extends FormValues> {
+  values: V;
+  initialValues: V; // Values the dirty fields are compared with
+  errors: FieldErrors<V>;
+  formError: TranslationKey | null; // Error of the whole form, e.g. a failed request
+  touched: FieldFlags<V>; // Fields the user left or tried to submit
+  validating: FieldFlags<V>; // Fields whose async rules are running
+  isSubmitting: boolean;
+  submitCount: number;
+}
+
+// Rule of a field: returns the key of its error message, or null when valid
+export type FieldRule<V extends FormValues> = (
+  value: string,
+  values: V,
+) => TranslationKey | null;
+
+// Rule that needs to ask something (e.g. the API) to validate a field
+// It's aborted through signal when the value changes before it resolves
+export type AsyncFieldRule<V extends FormValues> = (
+  value: string,
+  values: V,
+  signal: AbortSignal,
+) => Promise<TranslationKey | null>;
+
+// Rules of each field, run in order until one fails
+// Async rules only run once every sync rule of the field passed
+export type FormRules<V extends FormValues> = {
+  [K in keyof V]?: {
+    sync?: FieldRule<V>[];
+    async?: AsyncFieldRule<V>[];
+  };
+};
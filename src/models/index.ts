@@ -1 +1,18 @@
 export * from "./job.interface";
+export * from "./api-error.interface";
+export * from "./job.decoders";
+export * from "./outbox.interface";
+export * from "./outbox.decoders";
+export * from "./auth.interface";
+export * from "./auth.decoders";
+export * from "./job-filters.interface";
+export * from "./application.interface";
+export * from "./application.decoders";
+export * from "./saved-jobs.interface";
+export * from "./saved-jobs.decoders";
+export * from "./job-alerts.interface";
+export * from "./job-alerts.decoders";
+export * from "./repository.interface";
+export * from "./repository-inspection.interface";
+export * from "./form.interface";
+export * from "./email.interface";
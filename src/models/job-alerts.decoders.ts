@@ -0,0 +1,36 @@
+import {
+  arrayDecoder,
+  dateDecoder,
+  objectDecoder,
+  optionalDecoder,
+  recordDecoder,
+  stringDecoder,
+} from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import type {
+  JobAlert,
+  JobAlertsByCandidate,
+  JobAlertsState,
+} from "./job-alerts.interface";
+
+const jobIdsDecoder = arrayDecoder(stringDecoder, { skipInvalid: true });
+
+const jobAlertsDecoder: Decoder<JobAlertsByCandidate> = recordDecoder(
+  objectDecoder<JobAlertsState>({
+    alerts: arrayDecoder(
+      objectDecoder<JobAlert>({
+        id: stringDecoder,
+        search: stringDecoder,
+        createdAt: dateDecoder,
+      }),
+      { skipInvalid: true },
+    ),
+    seenJobIds: optionalDecoder(jobIdsDecoder),
+    newJobIds: jobIdsDecoder,
+    checkedAt: optionalDecoder(dateDecoder),
+  }),
+);
+
+// Decodes the persisted job alerts, dropping malformed candidates and alerts
+export const decodeJobAlerts = (value: unknown): JobAlertsByCandidate =>
+  jobAlertsDecoder(value, "jobAlerts");
@@ -0,0 +1,17 @@
+// Saved search the candidate subscribed to, told about the new jobs matching it
+export interface JobAlert {
+  id: string;
+  search: string; // Query string of the jobs list filters, e.g. "q=react&remote=remote"
+  createdAt: string; // ISO date the candidate subscribed
+}
+
+// Job alerts of a candidate and what the last check found
+export interface JobAlertsState {
+  alerts: JobAlert[];
+  seenJobIds?: string[]; // Jobs returned by the last check, missing until the first one
+  newJobIds: string[]; // New jobs matching an alert the candidate hasn't looked at yet
+  checkedAt?: string; // ISO date of the last check
+}
+
+// Job alerts of each candidate, keyed by candidateId
+export type JobAlertsByCandidate = Record<string, JobAlertsState>;
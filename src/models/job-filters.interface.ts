@@ -0,0 +1,15 @@
+import type { EmploymentType, RemotePolicy, Seniority } from "./job.interface";
+
+// Order of the jobs list: most recently posted first, or by title (A-Z)
+export type JobSortOrder = "newest" | "title";
+
+// Search, filters and sort applied to the jobs list
+// Unset filters match every job
+export interface JobFilters {
+  query: string; // Free text matched against titles and descriptions
+  remotePolicy?: RemotePolicy;
+  seniority?: Seniority;
+  employmentType?: EmploymentType;
+  savedOnly: boolean; // Only the jobs the candidate saved
+  sort: JobSortOrder;
+}
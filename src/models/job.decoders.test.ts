@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DecodeError } from "@/utils/decoder";
+import {
+  decodeApplyToJobResponse,
+  decodeJob,
+  decodeJobListPage,
+} from "./job.decoders";
+
+describe("decodeJob", () => {
+  it("normalizes the fields of a job", () => {
+    expect(
+      decodeJob({
+        id: 7,
+        title: " Frontend Developer ",
+        remotePolicy: "Remote",
+        tags: ["react", "", 3],
+        salary: { min: "1000", currency: "usd" },
+        postedAt: "2024-05-01",
+      }),
+    ).toEqual({
+      id: "7",
+      title: "Frontend Developer",
+      remotePolicy: "remote",
+      tags: ["react", "3"],
+      salary: { min: 1000, currency: "USD", period: "year" },
+      postedAt: "2024-05-01T00:00:00.000Z",
+    });
+  });
+
+  it("drops malformed optional fields", () => {
+    expect(
+      decodeJob({
+        id: "1",
+        title: "Designer",
+        seniority: "guru",
+        salary: { currency: "USD" },
+      }),
+    ).toEqual({ id: "1", title: "Designer", tags: [] });
+  });
+
+  it("rejects jobs without an ID or title", () => {
+    expect(() => decodeJob({ id: "1" })).toThrow(DecodeError);
+  });
+});
+
+describe("decodeJobListPage", () => {
+  it("reads a plain array as a single page", () => {
+    expect(decodeJobListPage([{ id: "1", title: "Developer" }])).toEqual({
+      jobs: [{ id: "1", title: "Developer", tags: [] }],
+    });
+  });
+
+  it("reads paginated responses, skipping malformed jobs", () => {
+    expect(
+      decodeJobListPage({
+        jobs: [{ id: "1", title: "Developer" }, { title: "No ID" }],
+        nextCursor: "page-2",
+      }),
+    ).toEqual({
+      jobs: [{ id: "1", title: "Developer", tags: [] }],
+      nextCursor: "page-2",
+    });
+  });
+});
+
+describe("decodeApplyToJobResponse", () => {
+  it("requires the ok flag", () => {
+    expect(decodeApplyToJobResponse({ ok: true, status: "Received" })).toEqual({
+      ok: true,
+      status: "received",
+    });
+    expect(() => decodeApplyToJobResponse({ status: "received" })).toThrow(
+      DecodeError,
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  DecodeError,
+  arrayDecoder,
+  booleanDecoder,
+  dateDecoder,
+  numberDecoder,
+  objectDecoder,
+  oneOfDecoder,
+  optionalDecoder,
+  stringDecoder,
+} from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import {
+  APPLICATION_STATUSES,
+  EMPLOYMENT_TYPES,
+  REMOTE_POLICIES,
+  SALARY_PERIODS,
+  SENIORITY_LEVELS,
+} from "@/constants/job.constants";
+import type {
+  Job,
+  Candidate,
+  ApplyToJobResponse,
+  JobListPage,
+  SalaryRange,
+} from "./job.interface";
+
+// Runtime decoders for the models in job.interface.ts
+// Each one validates an unknown value and returns the typed model,
+// or throws a DecodeError naming the offending field
+
+// Case-insensitive variant of oneOfDecoder, e.g. "Remote" is read as "remote"
+const enumDecoder = <T extends string>(options: readonly T[]): Decoder<T> => {
+  const decoder = oneOfDecoder(options);
+  return (value, path) =>
+    decoder(
+      typeof value === "string" ? value.trim().toLowerCase() : value,
+      path,
+    );
+};
+
+// Invalid tags are dropped, a missing list is read as no tags
+const tagsDecoder: Decoder<string[]> = (value, path) =>
+  value === undefined || value === null
+    ? []
+    : arrayDecoder(stringDecoder, { skipInvalid: true })(value, path);
+
+// Currency codes are uppercased and the period defaults to yearly
+const salaryShapeDecoder: Decoder<SalaryRange> = objectDecoder<SalaryRange>({
+  min: optionalDecoder(numberDecoder),
+  max: optionalDecoder(numberDecoder),
+  currency: (value, path) => stringDecoder(value, path).toUpperCase(),
+  period: (value, path) =>
+    value === undefined ? "year" : enumDecoder(SALARY_PERIODS)(value, path),
+});
+
+// A salary without any amount is rejected (and omitted by optionalDecoder)
+const salaryDecoder: Decoder<SalaryRange> = (value, path) => {
+  const salary = salaryShapeDecoder(value, path);
+
+  if (salary.min === undefined && salary.max === undefined) {
+    throw new DecodeError(path, "min or max amount", value);
+  }
+
+  return salary;
+};
+
+// Only id and title are required; every other field is optional and
+// dropped when malformed, so a partial job is still listed
+const jobDecoder: Decoder<Job> = objectDecoder<Job>({
+  id: stringDecoder,
+  title: stringDecoder,
+  description: optionalDecoder(stringDecoder),
+  location: optionalDecoder(stringDecoder),
+  remotePolicy: optionalDecoder(enumDecoder(REMOTE_POLICIES)),
+  seniority: optionalDecoder(enumDecoder(SENIORITY_LEVELS)),
+  employmentType: optionalDecoder(enumDecoder(EMPLOYMENT_TYPES)),
+  tags: tagsDecoder,
+  salary: optionalDecoder(salaryDecoder),
+  postedAt: optionalDecoder(dateDecoder),
+});
+
+// Malformed jobs are dropped from the list (and reported in development)
+// so a single bad entry doesn't hide every other position
+const jobListDecoder: Decoder<Job[]> = arrayDecoder(jobDecoder, {
+  skipInvalid: true,
+  onInvalidItem: (error) => {
+    if (import.meta.env.DEV) {
+      console.warn(`Skipping malformed job: ${error.message}`);
+    }
+  },
+});
+
+// Paginated responses are { jobs, nextCursor }
+// A plain array (API without pagination) is read as a single, last page
+const jobListPageDecoder: Decoder<JobListPage> = (value, path) =>
+  Array.isArray(value)
+    ? { jobs: jobListDecoder(value, path) }
+    : objectDecoder<JobListPage>({
+        jobs: jobListDecoder,
+        nextCursor: optionalDecoder(stringDecoder),
+      })(value, path);
+
+// Emails are normalized to lowercase
+const emailDecoder: Decoder<string> = (value, path) =>
+  stringDecoder(value, path).toLowerCase();
+
+const candidateDecoder: Decoder<Candidate> = objectDecoder<Candidate>({
+  uuid: stringDecoder,
+  candidateId: stringDecoder,
+  applicationId: stringDecoder,
+  firstName: stringDecoder,
+  lastName: stringDecoder,
+  email: emailDecoder,
+});
+
+const applyToJobResponseDecoder: Decoder<ApplyToJobResponse> =
+  objectDecoder<ApplyToJobResponse>({
+    ok: booleanDecoder,
+    status: optionalDecoder(enumDecoder(APPLICATION_STATUSES)),
+  });
+
+export const decodeJob = (value: unknown): Job => jobDecoder(value, "job");
+
+export const decodeJobList = (value: unknown): Job[] =>
+  jobListDecoder(value, "jobs");
+
+export const decodeJobListPage = (value: unknown): JobListPage =>
+  jobListPageDecoder(value, "jobListPage");
+
+export const decodeCandidate = (value: unknown): Candidate =>
+  candidateDecoder(value, "candidate");
+
+export const decodeApplyToJobResponse = (value: unknown): ApplyToJobResponse =>
+  applyToJobResponseDecoder(value, "applyToJobResponse");
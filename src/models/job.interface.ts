@@ -1,7 +1,47 @@
+import type { ApplicationStatus } from "./application.interface";
+
+// Work arrangement offered by a job
+export type RemotePolicy = "remote" | "hybrid" | "onsite";
+
+// Experience level a job is aimed at
+export type Seniority = "intern" | "junior" | "mid" | "senior" | "lead";
+
+export type EmploymentType =
+  | "full-time"
+  | "part-time"
+  | "contract"
+  | "internship";
+
+export type SalaryPeriod = "year" | "month" | "hour";
+
+// Salary offered by a job
+// At least one of min and max is always present
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  currency: string; // ISO 4217 code, e.g. "USD"
+  period: SalaryPeriod;
+}
+
 // Model representing an available job in the platform
+// Only id and title are guaranteed, the backend may omit every other field
 export interface Job {
   id: string; // Unique job identifier
   title: string; // Job title
+  description?: string; // Plain text, may span several lines
+  location?: string; // City or region, e.g. "Buenos Aires, Argentina"
+  remotePolicy?: RemotePolicy;
+  seniority?: Seniority;
+  employmentType?: EmploymentType;
+  tags: string[]; // Skills or technologies, empty when not provided
+  salary?: SalaryRange;
+  postedAt?: string; // ISO date the job was published
+}
+
+// Page of the jobs list returned by the API
+export interface JobListPage {
+  jobs: Job[];
+  nextCursor?: string; // Opaque cursor of the next page, missing on the last one
 }
 
 // Model representing a registered candidate in the system
@@ -17,18 +57,21 @@ export interface Candidate {
 // DTO used to send an application to a job
 // Requires unique uuid, candidate and job IDs, and repo URL
 export interface ApplyToJobDto {
-  uuid: string; // UUID generated on the client
+  uuid: string; // UUID generated on the client, used as the idempotency key
   jobId: string; // UUID of the job being applied to
   candidateId: string; // ID of the candidate applying
+  applicationId?: string; // Current application ID of the candidate
   repoUrl: string; // Repository URL with the test code
 }
 
 // Server response when applying to a job
 export interface ApplyToJobResponse {
   ok: boolean; // Operation success indicator
+  status?: ApplicationStatus; // Status of the application, when the server reports it
 }
 
 export interface CandidateInfoCardProps {
   candidate: Candidate;
+  savedCount: number; // Number of jobs the candidate saved
   onLogout: () => void;
 }
@@ -0,0 +1,41 @@
+import {
+  arrayDecoder,
+  objectDecoder,
+  oneOfDecoder,
+  optionalDecoder,
+  stringDecoder,
+} from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import { API_ERROR_TRANSLATION_KEYS } from "@/constants/error.constants";
+import type { ApiErrorKind } from "./api-error.interface";
+import type { ApplyToJobDto } from "./job.interface";
+import type { OutboxEntry, OutboxEntryStatus } from "./outbox.interface";
+
+const OUTBOX_STATUSES: readonly OutboxEntryStatus[] = [
+  "pending",
+  "syncing",
+  "failed",
+];
+
+// Every kind has a translation, so the mapping doubles as the list of kinds
+const API_ERROR_KINDS = Object.keys(API_ERROR_TRANSLATION_KEYS) as ApiErrorKind[];
+
+const applyToJobDtoDecoder: Decoder<ApplyToJobDto> = objectDecoder<ApplyToJobDto>({
+  uuid: stringDecoder,
+  jobId: stringDecoder,
+  candidateId: stringDecoder,
+  applicationId: optionalDecoder(stringDecoder),
+  repoUrl: stringDecoder,
+});
+
+const outboxEntryDecoder: Decoder<OutboxEntry> = objectDecoder<OutboxEntry>({
+  payload: applyToJobDtoDecoder,
+  jobTitle: optionalDecoder(stringDecoder),
+  queuedAt: stringDecoder,
+  status: oneOfDecoder(OUTBOX_STATUSES),
+  errorKind: optionalDecoder(oneOfDecoder(API_ERROR_KINDS)),
+});
+
+// Decodes the persisted outbox, dropping entries that can't be replayed
+export const decodeOutbox = (value: unknown): OutboxEntry[] =>
+  arrayDecoder(outboxEntryDecoder, { skipInvalid: true })(value, "outbox");
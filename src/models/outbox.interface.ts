@@ -0,0 +1,18 @@
+import type { ApiErrorKind } from "./api-error.interface";
+import type { ApplyToJobDto } from "./job.interface";
+
+// Lifecycle of an application queued while offline
+export type OutboxEntryStatus =
+  | "pending" // Waiting for connectivity
+  | "syncing" // Being replayed right now
+  | "failed"; // Rejected by the server, kept until the candidate dismisses it
+
+// Application queued in the offline outbox
+// The payload keeps its client uuid, so replays are idempotent
+export interface OutboxEntry {
+  payload: ApplyToJobDto;
+  jobTitle?: string; // Title of the job, recorded in the history once delivered
+  queuedAt: string; // ISO date when the application was queued
+  status: OutboxEntryStatus;
+  errorKind?: ApiErrorKind; // Kind of the error that made the replay fail
+}
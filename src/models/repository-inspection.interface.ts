@@ -0,0 +1,18 @@
+// What the pre-flight check of a repository found out about it
+export interface RepositorySummary {
+  defaultBranch: string;
+  lastCommitAt?: string; // ISO date of the latest commit on the default branch
+  primaryLanguage?: string;
+}
+
+// Why a repository can't be submitted
+export type RepositoryInspectionProblem =
+  | "not-found" // Doesn't exist, or is private and the host hides it
+  | "private"
+  | "empty" // Has no commits
+  | "archived";
+
+// Result of the pre-flight check of a repository
+export type RepositoryInspection =
+  | { ok: true; summary: RepositorySummary }
+  | { ok: false; problem: RepositoryInspectionProblem };
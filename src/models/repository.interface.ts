@@ -0,0 +1,45 @@
+// Software hosting the repositories, each with its own URL rules
+export type RepositoryProvider = "github" | "gitlab" | "bitbucket" | "gitea";
+
+// Host candidates can submit repositories from
+export interface RepositoryHost {
+  provider: RepositoryProvider;
+  hostname: string; // Lowercase, without "www.", e.g. "gitlab.example.com"
+}
+
+// How the repository URLs of a provider are written
+export interface RepositoryProviderRules {
+  label: string; // Brand name shown next to the URL field
+  publicHost?: string; // Hostname of the public service, missing for self-hosted only software
+  owner: RegExp; // One segment of the owner path
+  nestedOwners: boolean; // The owner may span several segments (GitLab subgroups)
+  repo: RegExp;
+  reservedOwners: readonly string[]; // First path segments of pages that aren't repositories
+  branchPath: readonly string[]; // Segments between the repository and its branch, e.g. ["tree"]
+}
+
+// Repository identified by a URL the candidate entered
+export interface RepositoryRef {
+  provider: RepositoryProvider;
+  host: string; // Lowercase host without "www.", e.g. "github.com"
+  owner: string; // User, organization or group path ("group/subgroup")
+  repo: string; // Repository name, without the ".git" suffix
+  branch?: string; // Branch of a ".../tree/<branch>" (or equivalent) URL
+}
+
+// Why a repository URL was rejected
+export type RepositoryUrlErrorReason =
+  | "empty"
+  | "invalid-url" // Not a URL nor an SSH address
+  | "unsupported-protocol" // Neither http(s) nor SSH
+  | "unsupported-host" // Not one of the configured repository hosts
+  | "missing-repository" // The path lacks the owner or the repository
+  | "not-a-repository" // A page of the host, e.g. github.com/settings/profile
+  | "invalid-owner"
+  | "invalid-repository";
+
+// Result of parsing a repository URL
+// canonicalUrl is the https URL submitted for the repository
+export type ParsedRepositoryUrl =
+  | { ok: true; repository: RepositoryRef; canonicalUrl: string }
+  | { ok: false; reason: RepositoryUrlErrorReason };
@@ -0,0 +1,11 @@
+import { arrayDecoder, recordDecoder, stringDecoder } from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import type { SavedJobsByCandidate } from "./saved-jobs.interface";
+
+const savedJobsDecoder: Decoder<SavedJobsByCandidate> = recordDecoder(
+  arrayDecoder(stringDecoder, { skipInvalid: true }),
+);
+
+// Decodes the persisted saved jobs, dropping malformed candidates and IDs
+export const decodeSavedJobs = (value: unknown): SavedJobsByCandidate =>
+  savedJobsDecoder(value, "savedJobs");
@@ -0,0 +1,3 @@
+// IDs of the jobs each candidate saved, keyed by candidateId
+// Jobs are kept in the order they were saved
+export type SavedJobsByCandidate = Record<string, string[]>;
@@ -0,0 +1,57 @@
+import React from "react";
+import { ROUTES } from "@/constants";
+import {
+  useApplicationHistory,
+  useCandidateContext,
+  useSavedJobs,
+  useTranslation,
+} from "@/hooks";
+import CandidateInfoCard from "../../../components/jobs/info/CandidateInfoCard";
+import ApplicationHistory from "../../../components/jobs/history/ApplicationHistory";
+import Link from "../../../components/router/Link";
+import "./ApplicationsPage.css";
+
+/**
+ * ApplicationsPage
+ *
+ * "My applications" page (#/applications).
+ *
+ * Responsibilities:
+ * - Display the authenticated candidate's information.
+ * - List every application the candidate sent, newest first, with the
+ *   repository, date and server status (ApplicationHistory, always open).
+ * - Link back to the jobs list.
+ *
+ * @returns React element with the applications page or null if there's no candidate.
+ */
+const ApplicationsPage: React.FC = () => {
+  const { candidate, logout } = useCandidateContext();
+  const { t } = useTranslation();
+  const applications = useApplicationHistory(candidate?.candidateId ?? "");
+  const { savedJobIds } = useSavedJobs(candidate?.candidateId ?? "");
+
+  // If there's no authenticated candidate, don't render the page
+  if (!candidate) {
+    return null;
+  }
+
+  return (
+    <div className="applications-page">
+      <div className="applications-container">
+        <Link to={ROUTES.JOBS} className="applications-back">
+          {t("backToPositions")}
+        </Link>
+
+        <CandidateInfoCard
+          candidate={candidate}
+          savedCount={savedJobIds.size}
+          onLogout={logout}
+        />
+
+        <ApplicationHistory records={applications} collapsible={false} />
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationsPage;
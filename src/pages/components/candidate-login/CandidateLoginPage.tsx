@@ -1,43 +1,74 @@
-import React, { useState } from "react";
-import { useCandidateContext, useTranslation } from "@/hooks";
+import React, { useMemo } from "react";
+import { useCandidateContext, useForm, useTranslation } from "@/hooks";
+import type { FormSubmitHelpers } from "@/hooks";
 import "./CandidateLoginPage.css";
-import { isError } from "@/utils";
+import { getErrorTranslationKey, isAbortError, isApiError } from "@/api";
 import { $Default } from "@/constants/defualt.constants";
-import type { TranslationKey } from "@/constants/translations.constants";
+import { ERROR_CODES } from "@/constants/error.constants";
+import type { FormRules, FormValues } from "@/models";
+import { emailAddress, normalizeEmail, suggestEmail } from "@/utils";
+
+interface LoginFormValues extends FormValues {
+  email: string;
+}
+
+const LOGIN_FORM_INITIAL_VALUES: LoginFormValues = {
+  email: $Default.EMPTY_STRING,
+};
+
+const LOGIN_FORM_RULES: FormRules<LoginFormValues> = {
+  email: { sync: [emailAddress()] },
+};
 
 // Candidate login component
 // Displays a simple form where the user enters their email
 // On submit, calls the context to authenticate and retrieve candidate data
-// If there's an error, it displays it on screen
+// The email is checked before any request: its syntax, the allowlist of the
+// configuration and likely typos of its domain, offered as a suggestion
+// If there's an error, it displays its translated message on screen
 const CandidateLoginPage: React.FC = () => {
-  const [email, setEmail] = useState($Default.EMPTY_STRING);
-  const [errorKey, setErrorKey] = useState<TranslationKey | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const { login } = useCandidateContext();
+  const { login, sessionExpired } = useCandidateContext();
   const { t } = useTranslation();
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setErrorKey(null);
-
-    if (!email.trim()) {
-      setErrorKey("enterEmail");
-      return;
-    }
-
-    setIsLoading(true);
-
+  const handleValidSubmit = async (
+    { email }: LoginFormValues,
+    { setFieldError, setFormError }: FormSubmitHelpers<LoginFormValues>,
+  ) => {
     try {
-      await login(email);
+      // The same address the rules checked, not the padded or mixed-case input
+      await login(normalizeEmail(email));
     } catch (err) {
-      const valid = isError(err) && err.message === "INVALID_EMAIL";
-      const errorTranslationKey = valid ? "invalidEmail" : "authFailed";
-      setErrorKey(errorTranslationKey);
-    } finally {
-      setIsLoading(false);
+      // A cancelled login (e.g. superseded by a newer one) is not an error
+      if (isAbortError(err)) {
+        return;
+      }
+
+      if (isApiError(err) && err.code === ERROR_CODES.INVALID_EMAIL) {
+        setFieldError("email", "invalidEmail");
+      } else {
+        setFormError(getErrorTranslationKey(err, "authFailed"));
+      }
     }
   };
 
+  const {
+    values,
+    errors,
+    formError,
+    isSubmitting,
+    setValue,
+    handleSubmit,
+    getFieldProps,
+  } = useForm({
+    initialValues: LOGIN_FORM_INITIAL_VALUES,
+    rules: LOGIN_FORM_RULES,
+    onSubmit: handleValidSubmit,
+  });
+  const errorKey = errors.email ?? formError;
+
+  // Address the candidate probably meant, e.g. "gmial.com" → "gmail.com"
+  const suggestion = useMemo(() => suggestEmail(values.email), [values.email]);
+
   return (
     <div className="candidate-login-page">
       <div className="candidate-login-container">
@@ -52,6 +83,7 @@ const CandidateLoginPage: React.FC = () => {
           <form
             className="candidate-login-form"
             onSubmit={(e) => handleSubmit(e)}
+            noValidate
           >
             <div className="candidate-form-group">
               <label htmlFor="email" className="candidate-form-label">
@@ -62,14 +94,29 @@ const CandidateLoginPage: React.FC = () => {
                 type="email"
                 className="candidate-form-input"
                 placeholder={t("emailPlaceholder")}
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                {...getFieldProps("email")}
                 required
-                disabled={isLoading}
+                disabled={isSubmitting}
+                autoComplete="email"
                 autoFocus
               />
+              {suggestion && !isSubmitting && (
+                <button
+                  type="button"
+                  className="candidate-email-suggestion"
+                  onClick={() => setValue("email", suggestion)}
+                >
+                  {t("emailSuggestion", { email: suggestion })}
+                </button>
+              )}
             </div>
 
+            {sessionExpired && !errorKey && (
+              <div className="candidate-info-message" role="status">
+                {t("sessionExpired")}
+              </div>
+            )}
+
             {errorKey && (
               <div className="candidate-error-message" role="alert">
                 <svg
@@ -97,8 +144,13 @@ const CandidateLoginPage: React.FC = () => {
               </div>
             )}
 
-            <button type="submit" className="candidate-login-button">
-              {t(isLoading ? "authenticating" : "continue")}
+            <button
+              type="submit"
+              className="candidate-login-button"
+              disabled={isSubmitting}
+              aria-busy={isSubmitting}
+            >
+              {t(isSubmitting ? "authenticating" : "continue")}
             </button>
           </form>
         </div>
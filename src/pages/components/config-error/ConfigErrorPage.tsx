@@ -0,0 +1,55 @@
+import React from "react";
+import { useTranslation } from "@/hooks";
+import type { ConfigIssue } from "@/config";
+import "./ConfigErrorPage.css";
+
+interface ConfigErrorPageProps {
+  issues: ConfigIssue[];
+  profile?: string; // Profile that was being loaded, if it could be determined
+}
+
+// Startup screen shown instead of the portal when the runtime
+// configuration can't be loaded or is invalid
+// Lists every problem with the setting it refers to, so the deployment
+// can be fixed without opening the browser console
+const ConfigErrorPage: React.FC<ConfigErrorPageProps> = ({
+  issues,
+  profile,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="config-error-page">
+      <div className="config-error-card" role="alert">
+        <h1 className="config-error-title">{t("configErrorTitle")}</h1>
+        <p className="config-error-description">
+          {t("configErrorDescription")}
+        </p>
+
+        {profile && (
+          <p className="config-error-profile">
+            {t("configErrorProfile", { profile })}
+          </p>
+        )}
+
+        <ul className="config-error-list">
+          {issues.map((issue) => (
+            <li key={`${issue.path}-${issue.message}`}>
+              <code>{issue.path}</code> {issue.message}
+            </li>
+          ))}
+        </ul>
+
+        <button
+          type="button"
+          className="config-error-button"
+          onClick={() => window.location.reload()}
+        >
+          {t("reload")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigErrorPage;
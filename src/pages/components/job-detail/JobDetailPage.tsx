@@ -0,0 +1,138 @@
+import React, { useEffect } from "react";
+import { getErrorTranslationKey } from "@/api";
+import { ROUTES } from "@/constants";
+import {
+  useCandidateContext,
+  useJobs,
+  useSavedJobs,
+  useTranslation,
+} from "@/hooks";
+import CandidateInfoCard from "../../../components/jobs/info/CandidateInfoCard";
+import JobCard from "../../../components/jobs/jobCard/JobCard";
+import Link from "../../../components/router/Link";
+import "./JobDetailPage.css";
+
+/**
+ * Props for the JobDetailPage component.
+ *
+ * @property jobId - ID of the job to display, taken from the route (/jobs/:id).
+ */
+interface JobDetailPageProps {
+  jobId: string;
+}
+
+/**
+ * JobDetailPage
+ *
+ * Page of a single job, reachable through a deep link (#/jobs/:id).
+ *
+ * Responsibilities:
+ * - Find the job in the shared jobs list (useJobs). The list is paginated,
+ *   so when the job isn't loaded yet the following pages are loaded until
+ *   it's found or the list ends.
+ * - Render the job card with every detail visible and its application form.
+ * - Show a not found state when no job has that ID, and the loading error
+ *   when the list can't be loaded.
+ * - Link back to the jobs list.
+ *
+ * @param props - JobDetailPageProps with the ID of the job.
+ * @returns React element with the job page or null if there's no candidate.
+ */
+const JobDetailPage: React.FC<JobDetailPageProps> = ({ jobId }) => {
+  const { candidate, logout } = useCandidateContext();
+  const { t } = useTranslation();
+  const { savedJobIds } = useSavedJobs(candidate?.candidateId ?? "");
+  const {
+    data: jobs = [],
+    error,
+    isLoading,
+    hasMore,
+    isLoadingMore,
+    loadMoreFailed,
+    loadMore,
+  } = useJobs();
+
+  const job = jobs.find(({ id }) => id === jobId);
+  const isSearching = !job && hasMore && !loadMoreFailed;
+
+  /**
+   * Loads the next page while the job hasn't been found.
+   */
+  useEffect(() => {
+    if (isSearching && !isLoading && !isLoadingMore) {
+      loadMore();
+    }
+  }, [isSearching, isLoading, isLoadingMore, loadMore]);
+
+  /**
+   * Determines what content to render based on the current state.
+   *
+   * @returns The job card, or the loading, error or not found state.
+   */
+  const renderContent = (): React.ReactElement => {
+    if (job) {
+      return <JobCard job={job} candidate={candidate!} detailed />;
+    }
+
+    if (isLoading || isSearching) {
+      return (
+        <div className="job-detail-state" role="status" aria-live="polite">
+          <div className="loading-spinner" aria-hidden="true"></div>
+          <p>{t("loadingPosition")}</p>
+        </div>
+      );
+    }
+
+    if (error || loadMoreFailed) {
+      return (
+        <div className="job-detail-error" role="alert">
+          {t(
+            error
+              ? getErrorTranslationKey(error, "loadJobsFailed")
+              : "loadMoreFailed",
+          )}
+          {loadMoreFailed && (
+            <button
+              type="button"
+              className="job-detail-action"
+              onClick={loadMore}
+            >
+              {t("retry")}
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="job-detail-state" role="status">
+        <p>{t("positionNotFound")}</p>
+      </div>
+    );
+  };
+
+  // If there's no authenticated candidate, don't render the page
+  if (!candidate) {
+    return null;
+  }
+
+  return (
+    <div className="job-detail-page">
+      <div className="job-detail-container">
+        <Link to={ROUTES.JOBS} className="job-detail-back">
+          {t("backToPositions")}
+        </Link>
+
+        <CandidateInfoCard
+          candidate={candidate}
+          savedCount={savedJobIds.size}
+          onLogout={logout}
+        />
+
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default JobDetailPage;
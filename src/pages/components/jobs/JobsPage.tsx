@@ -1,105 +1,192 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { getErrorTranslationKey } from "@/api";
 import type { Job } from "@/models";
-import { JobService } from "@/services";
-import { useCandidateContext, useTranslation } from "@/hooks";
-import { errors } from "@/constants/error.constants";
-import { isError } from "@/utils";
+import {
+  useApplicationHistory,
+  useBatchApply,
+  useCandidateContext,
+  useJobAlerts,
+  useJobFilters,
+  useJobs,
+  useLanguage,
+  useSavedJobs,
+  useTranslation,
+} from "@/hooks";
+import { DEFAULT_JOB_FILTERS, MAX_COMPARED_JOBS } from "@/constants";
+import {
+  applyJobFilters,
+  hasActiveJobFilters,
+  serializeJobFilters,
+} from "@/utils";
 import JobsHeader from "../../../components/jobs/header/JobsHeader";
+import JobsToolbar from "../../../components/jobs/toolbar/JobsToolbar";
 import CandidateInfoCard from "../../../components/jobs/info/CandidateInfoCard";
-import JobCard from "../../../components/jobs/jobCard/JobCard";
+import ApplicationHistory from "../../../components/jobs/history/ApplicationHistory";
+import JobsList from "../../../components/jobs/list/JobsList";
+import BatchApplyPanel from "../../../components/jobs/batch/BatchApplyPanel";
+import JobComparisonDrawer from "../../../components/jobs/comparison/JobComparisonDrawer";
+import JobAlerts from "../../../components/jobs/alerts/JobAlerts";
 import "./JobsPage.css";
 
-/**
- * Possible states for jobs loading.
- */
-interface JobsState {
-  jobs: Job[];
-  isLoading: boolean;
-  error: string | null;
-}
-
 /**
  * JobsPage
  * 
  * Main component of the available jobs page.
  * 
  * Responsibilities:
- * - Get and manage the list of available jobs from the API.
- * - Render the page header with title and subtitle.
+ * - Get the list of available jobs from the shared query cache (useJobs).
+ * - Render the page header with title, subtitle and a manual refresh control.
  * - Display the authenticated candidate's information with sticky functionality.
- * - Present the list of jobs through independent JobCard components.
+ * - Show the candidate's past applications in the "My applications" panel.
+ * - Let the candidate search, filter and sort the list (JobsToolbar); the
+ *   filters are kept in the URL query string (useJobFilters).
+ * - Let the candidate switch to the jobs they saved (useSavedJobs).
+ * - Offer a multi-select mode that sends one repository to several jobs at
+ *   once (BatchApplyPanel, useBatchApply).
+ * - Let the candidate subscribe to the current search to be told about new
+ *   matching jobs, through a browser notification and an "N new positions"
+ *   banner that reloads the list (JobAlerts, useJobAlerts).
+ * - Let the candidate pin up to MAX_COMPARED_JOBS jobs and compare them side
+ *   by side in a drawer, applying from it directly (JobComparisonDrawer).
+ * - Present the list of jobs through independent JobCard components, in a
+ *   virtualized list that loads the next page as the candidate scrolls (JobsList).
  * - Manage loading, error, and empty list states with appropriate UI.
  * - Delegate application logic to each individual JobCard.
  * 
  * Flow:
  * 1. On mount, verifies that an authenticated candidate exists.
- * 2. Loads the list of jobs from the API.
- * 3. Renders different views based on state (loading, error, empty, list).
- * 4. Each job is rendered as an independent JobCard component.
- * 
- * States:
- * - jobs: Array of available jobs.
- * - isLoading: Indicates whether the jobs request is in progress.
- * - error: Error message if the load fails.
+ * 2. Shows cached jobs immediately and revalidates them in the background
+ *    when stale (only the first load shows the spinner).
+ * 3. Applies the search, filters and sort from the URL to the cached list.
+ *    While they're active the remaining pages keep loading, since they only
+ *    see the jobs loaded so far.
+ * 4. Renders different views based on state (loading, error, empty,
+ *    searching the remaining pages, no matches, list).
+ * 5. Each job is rendered as an independent JobCard component; only the
+ *    cards near the viewport are mounted.
  * 
  * @returns React element with the complete jobs page or null if there's no candidate.
  */
 const JobsPage: React.FC = () => {
   const { candidate, logout } = useCandidateContext();
   const { t } = useTranslation();
-  
-  const [state, setState] = useState<JobsState>({
-    jobs: [],
-    isLoading: false,
-    error: null,
-  });
+  const { language } = useLanguage();
+  const {
+    data: jobs = [],
+    error,
+    isLoading,
+    isRefreshing,
+    refresh,
+    hasMore,
+    isLoadingMore,
+    loadMoreFailed,
+    loadMore,
+  } = useJobs();
+  const { filters, updateFilters, resetFilters } = useJobFilters();
+  const applications = useApplicationHistory(candidate?.candidateId ?? "");
+  const { savedJobIds } = useSavedJobs(candidate?.candidateId ?? "");
+  const batchApply = useBatchApply(candidate);
+  const jobAlerts = useJobAlerts(candidate?.candidateId ?? "");
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedJobIds, setSelectedJobIds] = useState<ReadonlySet<string>>(
+    new Set(),
+  );
+  // Pinned in order, so the columns of the comparison don't move around
+  const [comparedJobIds, setComparedJobIds] = useState<readonly string[]>([]);
+
+  const visibleJobs = useMemo(
+    () => applyJobFilters(jobs, filters, language, savedJobIds),
+    [jobs, filters, language, savedJobIds],
+  );
+  const hasActiveFilters = hasActiveJobFilters(filters);
 
   /**
-   * Updates the page state partially.
-   * 
-   * @param updates - Object with the state properties to update.
+   * Keeps loading pages while the search or filters are active: they only
+   * see the loaded jobs, so a match on a later page would be missed, and
+   * without matches there's no list to scroll to its end.
+   * A failed page is only retried from the button, to avoid a request loop.
    */
-  const updateState = useCallback(
-    (updates: Partial<JobsState>): void => {
-      setState((prevState) => ({ ...prevState, ...updates }));
-    },
-    []
+  useEffect(() => {
+    if (hasActiveFilters && hasMore && !isLoadingMore && !loadMoreFailed) {
+      loadMore();
+    }
+  }, [hasActiveFilters, hasMore, isLoadingMore, loadMoreFailed, loadMore]);
+
+  // Search an alert subscribes to: the saved tab and the sort don't change
+  // which jobs are new, nor do spaces around the query
+  const currentSearch = serializeJobFilters({
+    ...filters,
+    query: filters.query.trim(),
+    savedOnly: false,
+    sort: DEFAULT_JOB_FILTERS.sort,
+  }).toString();
+
+  const selectedJobs = useMemo(
+    () => jobs.filter((job) => selectedJobIds.has(job.id)),
+    [jobs, selectedJobIds],
+  );
+
+  const comparedJobs = useMemo(
+    () =>
+      comparedJobIds
+        .map((jobId) => jobs.find((job) => job.id === jobId))
+        .filter((job): job is Job => job !== undefined),
+    [jobs, comparedJobIds],
+  );
+  const comparedJobIdSet = useMemo(
+    () => new Set(comparedJobIds),
+    [comparedJobIds],
   );
 
   /**
-   * Gets the list of available jobs from the API.
-   * 
-   * Flow:
-   * 1. Activates loading state and clears previous errors.
-   * 2. Makes the request to the jobs service.
-   * 3. If successful, updates the state with the list of jobs.
-   * 4. If it fails, captures the error and updates the state with the message.
-   * 5. Finalizes the loading state regardless of the result.
-   * 
-   * Executes automatically when mounting the component.
+   * Pins a job to the comparison drawer, or unpins it if it was pinned.
+   * Nothing is pinned once the comparison is full.
+   *
+   * @param jobId - ID of the job.
    */
-  const loadJobs = useCallback(async (): Promise<void> => {
-    updateState({ isLoading: true, error: null });
-
-    try {
-      const jobsList = await JobService.getJobsList();
-      updateState({ jobs: jobsList, error: null });
-    } catch (err) {
-      const errorMsg = isError(err) ? err.message : errors.LOAD_JOBS_FAILED;
-      updateState({ error: errorMsg });
-    } finally {
-      updateState({ isLoading: false });
-    }
-  }, [updateState]);
+  const toggleCompared = useCallback((jobId: string): void => {
+    setComparedJobIds((prev) => {
+      if (prev.includes(jobId)) {
+        return prev.filter((id) => id !== jobId);
+      }
+      return prev.length < MAX_COMPARED_JOBS ? [...prev, jobId] : prev;
+    });
+  }, []);
 
   /**
-   * Effect hook that loads jobs when mounting the component.
-   * 
-   * Executes only once after the first render.
+   * Selects or unselects a job for the batch application.
+   *
+   * @param jobId - ID of the job.
    */
-  useEffect(() => {
-    loadJobs();
-  }, [loadJobs]);
+  const toggleSelected = useCallback((jobId: string): void => {
+    setSelectedJobIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(jobId)) {
+        next.add(jobId);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Leaves the multi-select mode, clearing the selection and the batch results.
+   */
+  const exitSelection = (): void => {
+    setIsSelecting(false);
+    setSelectedJobIds(new Set());
+    batchApply.reset();
+  };
+
+  /**
+   * Reloads the list to show the new jobs found by the alerts.
+   */
+  const showNewJobs = (): void => {
+    jobAlerts.dismissNew();
+    refresh();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const errorKey = error ? getErrorTranslationKey(error, "loadJobsFailed") : null;
 
   /**
    * Renders the loading state with a spinner and message.
@@ -124,20 +211,62 @@ const JobsPage: React.FC = () => {
     </div>
   );
 
+  /**
+   * Renders the state shown while no loaded job matches the filters but
+   * more pages remain to be searched.
+   * 
+   * @returns Element with a spinner, or the retry action if a page failed to load.
+   */
+  const renderSearchingState = (): React.ReactElement =>
+    loadMoreFailed ? (
+      <div className="empty-state" role="alert">
+        <p>{t("loadMoreFailed")}</p>
+        <button type="button" className="empty-state-action" onClick={loadMore}>
+          {t("retry")}
+        </button>
+      </div>
+    ) : (
+      <div className="loading-state" role="status" aria-live="polite">
+        <div className="loading-spinner" aria-hidden="true"></div>
+        <p>{t("searchingMorePositions")}</p>
+      </div>
+    );
+
+  /**
+   * Renders the state shown when jobs exist but none match the filters.
+   * 
+   * @returns Element with the no matches message and a button to clear the filters.
+   */
+  const renderNoMatchesState = (): React.ReactElement => (
+    <div className="empty-state" role="status">
+      <p>{t("noMatchingPositions")}</p>
+      <button type="button" className="empty-state-action" onClick={resetFilters}>
+        {t("clearFilters")}
+      </button>
+    </div>
+  );
+
   /**
    * Renders the list of job cards.
    * 
    * Each job is rendered as an independent JobCard component that handles
    * its own application logic and state.
    * 
-   * @returns Element with the list of JobCards.
+   * @returns Element with the virtualized list of JobCards.
    */
   const renderJobsList = (): React.ReactElement => (
-    <div className="jobs-list" role="list">
-      {state.jobs.map((job) => (
-        <JobCard key={job.id} job={job} candidate={candidate!} />
-      ))}
-    </div>
+    <JobsList
+      jobs={visibleJobs}
+      candidate={candidate!}
+      hasMore={hasMore}
+      isLoadingMore={isLoadingMore}
+      loadMoreFailed={loadMoreFailed}
+      onLoadMore={loadMore}
+      selectedJobIds={isSelecting ? selectedJobIds : undefined}
+      onToggleSelected={isSelecting ? toggleSelected : undefined}
+      comparedJobIds={comparedJobIdSet}
+      onToggleCompared={toggleCompared}
+    />
   );
 
   /**
@@ -146,19 +275,30 @@ const JobsPage: React.FC = () => {
    * Rendering priority:
    * 1. Loading state: Shows spinner.
    * 2. Empty list: Shows no jobs message.
-   * 3. List with jobs: Shows the cards.
+   * 3. No loaded job matches the filters and more pages remain: Shows the
+   *    search through the remaining pages.
+   * 4. No job matches the filters: Shows the no matches message.
+   * 5. List with jobs: Shows the matching cards.
    * 
    * @returns The appropriate React element based on the state.
    */
   const renderContent = (): React.ReactElement => {
-    if (state.isLoading) {
+    if (isLoading) {
       return renderLoadingState();
     }
 
-    if (state.jobs.length === 0) {
+    if (jobs.length === 0) {
       return renderEmptyState();
     }
 
+    if (visibleJobs.length === 0 && hasMore) {
+      return renderSearchingState();
+    }
+
+    if (visibleJobs.length === 0) {
+      return renderNoMatchesState();
+    }
+
     return renderJobsList();
   };
 
@@ -168,20 +308,82 @@ const JobsPage: React.FC = () => {
   }
 
   return (
-    <div className="jobs-page">
+    <div
+      className={`jobs-page ${comparedJobs.length > 0 ? "jobs-page-comparing" : ""}`}
+    >
       <div className="jobs-container">
-        <JobsHeader />
+        <JobsHeader onRefresh={refresh} isRefreshing={isLoading || isRefreshing} />
         
-        <CandidateInfoCard candidate={candidate} onLogout={logout} />
+        <CandidateInfoCard
+          candidate={candidate}
+          savedCount={savedJobIds.size}
+          onLogout={logout}
+        />
+
+        <ApplicationHistory records={applications} />
 
-        {state.error && (
+        {jobs.length > 0 && (
+          <JobsToolbar
+            filters={filters}
+            resultCount={visibleJobs.length}
+            totalCount={jobs.length}
+            isPartial={hasMore}
+            savedCount={savedJobIds.size}
+            hasActiveFilters={hasActiveFilters}
+            onChange={updateFilters}
+            onReset={resetFilters}
+          />
+        )}
+
+        {jobs.length > 0 && (
+          <JobAlerts
+            alerts={jobAlerts.alerts}
+            newCount={jobAlerts.newJobIds.length}
+            isCurrentSearchSubscribed={jobAlerts.alerts.some(
+              (alert) => alert.search === currentSearch,
+            )}
+            onSubscribe={() => jobAlerts.addAlert(currentSearch)}
+            onRemove={jobAlerts.removeAlert}
+            onShowNew={showNewJobs}
+            onDismissNew={jobAlerts.dismissNew}
+          />
+        )}
+
+        {jobs.length > 0 &&
+          (isSelecting ? (
+            <BatchApplyPanel
+              selectedJobs={selectedJobs}
+              batch={batchApply.state}
+              onSubmit={(repoUrl) => batchApply.submit(selectedJobs, repoUrl)}
+              onRetry={batchApply.retryFailed}
+              onClearSelection={() => setSelectedJobIds(new Set())}
+              onClose={exitSelection}
+            />
+          ) : (
+            <button
+              type="button"
+              className="batch-apply-toggle"
+              onClick={() => setIsSelecting(true)}
+            >
+              {t("selectMultiple")}
+            </button>
+          ))}
+
+        {errorKey && (
           <div className="error-message" role="alert" aria-live="assertive">
-            {state.error}
+            {t(errorKey)}
           </div>
         )}
 
         {renderContent()}
       </div>
+
+      <JobComparisonDrawer
+        jobs={comparedJobs}
+        candidate={candidate}
+        onRemove={toggleCompared}
+        onClear={() => setComparedJobIds([])}
+      />
     </div>
   );
 };
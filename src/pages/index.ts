@@ -1,2 +1,5 @@
 export { default as JobsPage } from "./components/jobs/JobsPage";
 export { default as CandidateLoginPage } from "./components/candidate-login/CandidateLoginPage";
+export { default as ConfigErrorPage } from "./components/config-error/ConfigErrorPage";
+export { default as JobDetailPage } from "./components/job-detail/JobDetailPage";
+export { default as ApplicationsPage } from "./components/applications/ApplicationsPage";
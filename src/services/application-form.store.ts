@@ -0,0 +1,253 @@
+import { $Default } from "@/constants/defualt.constants";
+import { STORAGE_KEYS } from "@/constants";
+import { decodeApplicationDrafts } from "@/models";
+import type {
+  ApplicationDrafts,
+  FormState,
+  FormValues,
+  RepositorySummary,
+} from "@/models";
+import { generateUuid } from "@/utils";
+import { AuthService } from "./auth.service";
+import { OutboxService } from "./outbox.service";
+import { createFormState } from "./form.store";
+import type { FormStore } from "./form.store";
+
+// Progress of the automatic retries of a submission
+export interface RetryProgress {
+  attempt: number;
+  maxAttempts: number;
+}
+
+// Pre-flight check of the repository about to be submitted
+// url is the canonical URL that was checked; once it "passed" (or couldn't
+// be checked) the next submit of the same URL sends the application
+export type RepositoryPreflight =
+  | { status: "checking"; url: string }
+  | { status: "passed"; url: string; summary: RepositorySummary }
+  | { status: "unavailable"; url: string };
+
+// Fields of the application form
+export interface ApplicationFormValues extends FormValues {
+  repoUrl: string;
+}
+
+// State of a job card's application form, replaced (never mutated) on
+// every change so it can be read through useSyncExternalStore
+// form holds what useForm handles: the URL, its error, the error of the
+// request and the submission in flight
+export interface ApplicationFormState {
+  form: FormState<ApplicationFormValues>;
+  errorReference: string | null; // Correlation ID of the failed request
+  isSuccess: boolean;
+  retry: RetryProgress | null;
+  isExpanded: boolean; // Whether the job details are expanded
+  draftSavedAt: string | null; // When the typed URL was last saved as a draft
+  preflight: RepositoryPreflight | null;
+}
+
+interface FormEntry {
+  state: ApplicationFormState;
+  idempotencyKey: string | null;
+  controller: AbortController | null;
+  listeners: Set<() => void>;
+}
+
+const INITIAL_VALUES: ApplicationFormValues = {
+  repoUrl: $Default.EMPTY_STRING,
+};
+
+const INITIAL_STATE: ApplicationFormState = {
+  form: createFormState(INITIAL_VALUES),
+  errorReference: null,
+  isSuccess: false,
+  retry: null,
+  isExpanded: false,
+  draftSavedAt: null,
+  preflight: null,
+};
+
+// Key of the form of a candidate for a job
+export const getApplicationFormKey = (
+  candidateId: string,
+  jobId: string,
+): string => `${candidateId}:${jobId}`;
+
+// Store of the application forms of the job cards
+// The jobs list only mounts the cards near the viewport, so the form state
+// lives here instead of in the card: a card that scrolls out of view and
+// back keeps its URL, messages and submission in flight
+// The typed URL is also autosaved as a draft in localStorage on every
+// change, so it survives a reload or a logout; clearing the URL (after a
+// successful submission or by discarding it) removes the draft
+// Everything else is discarded (and submissions aborted) when the session ends
+class ApplicationFormStore {
+  private entries = new Map<string, FormEntry>();
+  private drafts: ApplicationDrafts | null = null;
+
+  private getEntry(key: string): FormEntry {
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      entry = {
+        state: this.createInitialState(key),
+        idempotencyKey: null,
+        controller: null,
+        listeners: new Set(),
+      };
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  getState(key: string): ApplicationFormState {
+    return this.getEntry(key).state;
+  }
+
+  // Updates the state of the form partially and notifies its subscribers
+  // A new URL is saved as the draft of the form
+  update(key: string, updates: Partial<ApplicationFormState>): void {
+    const entry = this.getEntry(key);
+    const repoUrl = updates.form?.values.repoUrl;
+
+    if (repoUrl !== undefined && repoUrl !== entry.state.form.values.repoUrl) {
+      updates = {
+        ...updates,
+        draftSavedAt: this.saveDraft(key, repoUrl),
+      };
+    }
+
+    entry.state = { ...entry.state, ...updates };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  // Exposes the form slice of a form's state to useForm
+  getFormStore(key: string): FormStore<ApplicationFormValues> {
+    return {
+      getState: () => this.getState(key).form,
+      setState: (updates) =>
+        this.update(key, { form: { ...this.getState(key).form, ...updates } }),
+      subscribe: (listener) => this.subscribe(key, listener),
+    };
+  }
+
+  // Registers a listener called on every state change of the form
+  // Returns the function that removes it
+  subscribe(key: string, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  // Gets the idempotency key of the current submission, creating it if needed
+  // It's kept across retries and resubmissions of the same URL, so the
+  // server never records the application twice
+  getIdempotencyKey(key: string): string {
+    const entry = this.getEntry(key);
+    entry.idempotencyKey ??= generateUuid();
+    return entry.idempotencyKey;
+  }
+
+  // Discards the idempotency key (the URL changed or the application was sent)
+  resetIdempotencyKey(key: string): void {
+    this.getEntry(key).idempotencyKey = null;
+  }
+
+  // Starts tracking a submission, which is aborted if the store is cleared
+  startSubmission(key: string): AbortSignal {
+    const controller = new AbortController();
+    this.getEntry(key).controller = controller;
+    return controller.signal;
+  }
+
+  finishSubmission(key: string): void {
+    this.getEntry(key).controller = null;
+  }
+
+  // Whether the form has a submission (or pre-flight check) in flight
+  isSubmitting(key: string): boolean {
+    return !!this.entries.get(key)?.controller;
+  }
+
+  // State of a form that hasn't been used yet, with its draft restored
+  private createInitialState(key: string): ApplicationFormState {
+    const draft = this.getDrafts()[key];
+    return draft
+      ? {
+          ...INITIAL_STATE,
+          form: createFormState(INITIAL_VALUES, { repoUrl: draft.repoUrl }),
+          draftSavedAt: draft.savedAt,
+        }
+      : INITIAL_STATE;
+  }
+
+  private getDrafts(): ApplicationDrafts {
+    this.drafts ??= this.loadDrafts();
+    return this.drafts;
+  }
+
+  // Saves the URL as the draft of the form, removing it when empty
+  // Returns when it was saved, null if there's no draft anymore
+  private saveDraft(key: string, repoUrl: string): string | null {
+    const drafts = { ...this.getDrafts() };
+    let savedAt: string | null = null;
+
+    if (repoUrl.trim()) {
+      savedAt = new Date().toISOString();
+      drafts[key] = { repoUrl, savedAt };
+    } else {
+      delete drafts[key];
+    }
+
+    this.drafts = drafts;
+    localStorage.setItem(
+      STORAGE_KEYS.APPLICATION_DRAFTS,
+      JSON.stringify(drafts),
+    );
+    return savedAt;
+  }
+
+  // Reads the persisted drafts, discarding them if they can't be parsed
+  private loadDrafts(): ApplicationDrafts {
+    const data = localStorage.getItem(STORAGE_KEYS.APPLICATION_DRAFTS);
+
+    if (!data) {
+      return {};
+    }
+
+    try {
+      return decodeApplicationDrafts(JSON.parse(data));
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.APPLICATION_DRAFTS);
+      return {};
+    }
+  }
+
+  // Aborts every submission in flight and resets all the forms
+  // Drafts are kept, they're restored when the candidate logs in again
+  clear(): void {
+    this.entries.forEach((entry, key) => {
+      entry.controller?.abort();
+      entry.controller = null;
+      entry.idempotencyKey = null;
+      entry.state = this.createInitialState(key);
+      entry.listeners.forEach((listener) => listener());
+    });
+  }
+}
+
+export const applicationForms = new ApplicationFormStore();
+
+// The forms belong to the candidate of the session
+AuthService.onSessionEnded(() => applicationForms.clear());
+
+// Shows the success message when the outbox delivers a queued application
+OutboxService.onSynced(({ payload }) =>
+  applicationForms.update(
+    getApplicationFormKey(payload.candidateId, payload.jobId),
+    { isSuccess: true },
+  ),
+);
@@ -0,0 +1,80 @@
+import { STORAGE_KEYS } from "@/constants";
+import { decodeApplicationHistory } from "@/models";
+import type {
+  ApplicationRecord,
+  ApplyToJobDto,
+  ApplyToJobResponse,
+} from "@/models";
+
+type HistoryListener = () => void;
+
+// Service that keeps the history of the applications sent by each candidate
+// Every application accepted by the server (directly or replayed from the
+// offline outbox) is persisted in localStorage, so the candidate can see
+// what they applied to, with which repository and when
+export class ApplicationHistoryService {
+  private static records: ApplicationRecord[] | null = null;
+  private static listeners = new Set<HistoryListener>();
+
+  // Gets the records of every candidate, loading them from localStorage the first time
+  // The same array is returned until the history changes
+  static getRecords(): ApplicationRecord[] {
+    this.records ??= this.load();
+    return this.records;
+  }
+
+  // Records an application accepted by the server
+  // A resubmission with the same idempotency key replaces its record
+  static record(
+    payload: ApplyToJobDto,
+    response: ApplyToJobResponse,
+    jobTitle?: string,
+  ): void {
+    const record: ApplicationRecord = {
+      uuid: payload.uuid,
+      jobId: payload.jobId,
+      jobTitle,
+      candidateId: payload.candidateId,
+      repoUrl: payload.repoUrl,
+      appliedAt: new Date().toISOString(),
+      status: response.status ?? "received",
+    };
+    const records = this.getRecords().filter(
+      (item) => item.uuid !== payload.uuid,
+    );
+    this.setRecords([...records, record]);
+  }
+
+  // Registers a listener called whenever the history changes
+  static subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static setRecords(records: ApplicationRecord[]): void {
+    this.records = records;
+    localStorage.setItem(
+      STORAGE_KEYS.APPLICATION_HISTORY,
+      JSON.stringify(records),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Reads the persisted history, discarding it if it can't be parsed
+  private static load(): ApplicationRecord[] {
+    const data = localStorage.getItem(STORAGE_KEYS.APPLICATION_HISTORY);
+
+    if (!data) {
+      return [];
+    }
+
+    try {
+      return decodeApplicationHistory(JSON.parse(data));
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.APPLICATION_HISTORY);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  apiClient,
+  createSession,
+  decodeResponse,
+  isApiError,
+  refreshSession,
+  sessionStore,
+  toInvalidEmailError,
+} from "@/api";
+import { envConfig } from "@/config";
+import { API_ENDPOINTS } from "@/constants";
+import { decodeAuthTokenResponse } from "@/models";
+import type { AuthSession, SessionEndReason } from "@/models";
+import type { RequestOptions } from "./job.service";
+
+// Service that manages the candidate's auth session
+// Issues the access token on login, refreshes it silently before it expires
+// and ends the session on logout
+// Tokens are only requested from APIs that issue them (envConfig.auth.tokens),
+// other APIs identify the candidate by email alone
+export class AuthService {
+  // Whether the API issues access tokens, so a candidate needs a session
+  static usesTokens(): boolean {
+    return envConfig.auth.tokens;
+  }
+
+  // Requests an access token for the candidate's email and stores the session
+  // Resolves with null when the API answers 404: the endpoint is missing or
+  // doesn't know the email, which the candidate lookup then tells apart
+  // A rejected email is reported as an INVALID_EMAIL ApiError
+  static async issueToken(
+    email: string,
+    { signal }: RequestOptions = {},
+  ): Promise<AuthSession | null> {
+    const endpoint = API_ENDPOINTS.AUTH.TOKEN;
+
+    try {
+      const response = await apiClient.post<unknown>(
+        endpoint,
+        { email },
+        { signal, skipAuth: true },
+      );
+      const session = createSession(
+        decodeResponse(decodeAuthTokenResponse, response.data, endpoint),
+      );
+      sessionStore.set(session);
+      return session;
+    } catch (error) {
+      if (isApiError(error) && error.kind === "not-found") {
+        return null;
+      }
+      throw toInvalidEmailError(error);
+    }
+  }
+
+  // Exchanges the refresh token for a new access token
+  // Ends the session as expired if the refresh token is rejected
+  static refresh(): Promise<AuthSession> {
+    return refreshSession();
+  }
+
+  // Gets the current session, or null if there's none
+  static getSession(): AuthSession | null {
+    return sessionStore.get();
+  }
+
+  // Registers a listener called on every change of the session
+  static subscribe(listener: () => void): () => void {
+    return sessionStore.subscribe(listener);
+  }
+
+  // Registers a listener called when the session ends, with the reason
+  static onSessionEnded(
+    listener: (reason: SessionEndReason) => void,
+  ): () => void {
+    return sessionStore.onEnded(listener);
+  }
+
+  // Removes the session from the client
+  static endSession(reason: SessionEndReason): void {
+    sessionStore.end(reason);
+  }
+}
@@ -0,0 +1,53 @@
+import type { FormState, FormValues } from "@/models";
+
+// Where a form handled by useForm keeps its state
+// useForm creates a LocalFormStore unless the form's state has to live
+// elsewhere, e.g. in the application form store to survive unmounting
+export interface FormStore<V extends FormValues> {
+  getState(): FormState<V>;
+  setState(updates: Partial<FormState<V>>): void;
+  subscribe(listener: () => void): () => void;
+}
+
+// State of a form that hasn't been used yet
+// values defaults to the initial values, restored drafts are passed apart
+// so they count as dirty
+export const createFormState = <V extends FormValues>(
+  initialValues: V,
+  values: V = initialValues,
+): FormState<V> => ({
+  values,
+  initialValues,
+  errors: {},
+  formError: null,
+  touched: {},
+  validating: {},
+  isSubmitting: false,
+  submitCount: 0,
+});
+
+// Keeps the state of a single form in memory
+export class LocalFormStore<V extends FormValues> implements FormStore<V> {
+  private state: FormState<V>;
+  private listeners = new Set<() => void>();
+
+  constructor(initialValues: V) {
+    this.state = createFormState(initialValues);
+  }
+
+  getState(): FormState<V> {
+    return this.state;
+  }
+
+  setState(updates: Partial<FormState<V>>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -1 +1,11 @@
 export * from "./job.service";
+export * from "./auth.service";
+export * from "./query.cache";
+export * from "./outbox.service";
+export * from "./form.store";
+export * from "./application-form.store";
+export * from "./application-history.service";
+export * from "./saved-jobs.service";
+export * from "./job-alerts.service";
+export * from "./repository-inspection.service";
+export * from "./repository-inspectors";
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "@/models";
+import { JobAlertsService } from "./job-alerts.service";
+
+// In-memory localStorage, the service persists every change
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+};
+
+const job = (id: string, title: string, postedAt?: string): Job => ({
+  id,
+  title,
+  tags: [],
+  postedAt,
+});
+
+const CATALOG = [job("1", "Frontend Developer"), job("2", "Designer")];
+
+// The service keeps its state in memory, so each test uses its own candidate
+let candidateId = "";
+let candidates = 0;
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createStorage());
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-06-01T10:00:00Z"));
+  candidateId = `candidate-${++candidates}`;
+  JobAlertsService.addAlert(candidateId, "q=developer");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("JobAlertsService.check", () => {
+  it("reports nothing on the first check", () => {
+    expect(JobAlertsService.check(candidateId, CATALOG)).toEqual([]);
+    expect(JobAlertsService.getState(candidateId).seenJobIds).toEqual([
+      "1",
+      "2",
+    ]);
+  });
+
+  it("reports new jobs matching an alert", () => {
+    JobAlertsService.check(candidateId, CATALOG);
+    const backend = job("3", "Backend Developer");
+
+    expect(
+      JobAlertsService.check(candidateId, [
+        ...CATALOG,
+        backend,
+        job("4", "Recruiter"),
+      ]),
+    ).toEqual([backend]);
+    expect(JobAlertsService.getState(candidateId).newJobIds).toEqual(["3"]);
+    expect(JobAlertsService.check(candidateId, [...CATALOG, backend])).toEqual(
+      [],
+    );
+  });
+
+  it("forgets new jobs removed from a complete list", () => {
+    JobAlertsService.check(candidateId, CATALOG);
+    JobAlertsService.check(candidateId, [...CATALOG, job("3", "QA Developer")]);
+
+    JobAlertsService.check(candidateId, CATALOG);
+
+    expect(JobAlertsService.getState(candidateId).newJobIds).toEqual([]);
+  });
+
+  it("keeps the seen jobs of a partial list", () => {
+    JobAlertsService.check(candidateId, CATALOG);
+
+    JobAlertsService.check(candidateId, [CATALOG[0]], false);
+    expect(JobAlertsService.getState(candidateId).seenJobIds).toEqual([
+      "1",
+      "2",
+    ]);
+
+    // A job seen before isn't new when it comes back into the window
+    expect(JobAlertsService.check(candidateId, CATALOG, false)).toEqual([]);
+  });
+
+  it("doesn't report jobs published before the previous check", () => {
+    JobAlertsService.check(candidateId, CATALOG, false);
+    vi.setSystemTime(new Date("2024-06-01T11:00:00Z"));
+    const older = job("3", "Backend Developer", "2024-05-20T00:00:00.000Z");
+    const newer = job("4", "Mobile Developer", "2024-06-01T10:30:00.000Z");
+
+    expect(
+      JobAlertsService.check(candidateId, [...CATALOG, older, newer], false),
+    ).toEqual([newer]);
+  });
+
+  it("checks nothing without alerts", () => {
+    const [alert] = JobAlertsService.getState(candidateId).alerts;
+    JobAlertsService.removeAlert(candidateId, alert.id);
+
+    expect(JobAlertsService.check(candidateId, CATALOG)).toEqual([]);
+    expect(JobAlertsService.getState(candidateId).seenJobIds).toBeUndefined();
+  });
+});
+
+describe("JobAlertsService.dismissNew", () => {
+  it("clears the new jobs", () => {
+    JobAlertsService.check(candidateId, CATALOG);
+    JobAlertsService.check(candidateId, [...CATALOG, job("3", "QA Developer")]);
+
+    JobAlertsService.dismissNew(candidateId);
+
+    expect(JobAlertsService.getState(candidateId).newJobIds).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { STORAGE_KEYS } from "@/constants";
+import { decodeJobAlerts } from "@/models";
+import type { Job, JobAlertsByCandidate, JobAlertsState } from "@/models";
+import { generateUuid, matchesJobFilters, parseJobFilters } from "@/utils";
+
+type JobAlertsListener = () => void;
+
+const NO_JOB_ALERTS: JobAlertsState = { alerts: [], newJobIds: [] };
+
+// Service that keeps the job alerts of each candidate: saved searches whose
+// new matching jobs are reported to the candidate
+// Each check diffs the jobs list against the jobs seen by the previous one;
+// the first check only records what exists, so nothing is reported as new
+// The state is persisted in localStorage keyed by candidateId
+export class JobAlertsService {
+  private static jobAlerts: JobAlertsByCandidate | null = null;
+  private static listeners = new Set<JobAlertsListener>();
+
+  // Gets the alerts of the candidate and the new jobs not looked at yet
+  // The same object is returned until the candidate's state changes
+  static getState(candidateId: string): JobAlertsState {
+    return this.getAll()[candidateId] ?? NO_JOB_ALERTS;
+  }
+
+  // Subscribes the candidate to a search (the query string of the filters)
+  // A search the candidate already subscribed to isn't added twice
+  static addAlert(candidateId: string, search: string): void {
+    const state = this.getState(candidateId);
+
+    if (state.alerts.some((alert) => alert.search === search)) {
+      return;
+    }
+
+    this.setState(candidateId, {
+      ...state,
+      alerts: [
+        ...state.alerts,
+        { id: generateUuid(), search, createdAt: new Date().toISOString() },
+      ],
+    });
+  }
+
+  // Unsubscribes the candidate from an alert
+  // Without alerts nothing is checked, so the seen jobs are forgotten and
+  // the next alert starts from a fresh check
+  static removeAlert(candidateId: string, alertId: string): void {
+    const state = this.getState(candidateId);
+    const alerts = state.alerts.filter((alert) => alert.id !== alertId);
+
+    this.setState(
+      candidateId,
+      alerts.length > 0 ? { ...state, alerts } : NO_JOB_ALERTS,
+    );
+  }
+
+  // Diffs the current jobs list against the jobs seen by the previous checks
+  // Returns the new jobs matching at least one alert, which are also kept
+  // as new until the candidate looks at them
+  // A partial list (isComplete false, only the first pages) adds its jobs to
+  // the seen ones instead of replacing them, and a job published before the
+  // previous check isn't new even if no check saw it yet (it was further
+  // down the list)
+  static check(candidateId: string, jobs: Job[], isComplete = true): Job[] {
+    const state = this.getState(candidateId);
+
+    if (state.alerts.length === 0) {
+      return [];
+    }
+
+    const seen = state.seenJobIds && new Set(state.seenJobIds);
+    const checkedAt = state.checkedAt ? Date.parse(state.checkedAt) : 0;
+    const unseen = seen
+      ? jobs.filter(
+          (job) =>
+            !seen.has(job.id) &&
+            !(job.postedAt && Date.parse(job.postedAt) < checkedAt),
+        )
+      : [];
+
+    // A saved search never narrows to saved jobs, a new job can't be saved yet
+    const searches = state.alerts.map(({ search }) => ({
+      ...parseJobFilters(new URLSearchParams(search)),
+      savedOnly: false,
+    }));
+    const matches = unseen.filter((job) =>
+      searches.some((filters) => matchesJobFilters(job, filters)),
+    );
+
+    // Jobs removed from the list are no longer new, which only a complete
+    // list can tell
+    const currentIds = new Set(jobs.map((job) => job.id));
+    const newJobIds = [
+      ...state.newJobIds.filter((id) => !isComplete || currentIds.has(id)),
+      ...matches.map((job) => job.id),
+    ];
+    const seenJobIds = isComplete
+      ? [...currentIds]
+      : [...new Set([...(state.seenJobIds ?? []), ...currentIds])];
+
+    this.setState(candidateId, {
+      ...state,
+      seenJobIds,
+      newJobIds,
+      checkedAt: new Date().toISOString(),
+    });
+
+    return matches;
+  }
+
+  // Marks the new jobs as looked at
+  static dismissNew(candidateId: string): void {
+    const state = this.getState(candidateId);
+
+    if (state.newJobIds.length > 0) {
+      this.setState(candidateId, { ...state, newJobIds: [] });
+    }
+  }
+
+  // Registers a listener called whenever the alerts of a candidate change
+  static subscribe(listener: JobAlertsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static getAll(): JobAlertsByCandidate {
+    this.jobAlerts ??= this.load();
+    return this.jobAlerts;
+  }
+
+  private static setState(candidateId: string, state: JobAlertsState): void {
+    this.jobAlerts = { ...this.getAll(), [candidateId]: state };
+    localStorage.setItem(
+      STORAGE_KEYS.JOB_ALERTS,
+      JSON.stringify(this.jobAlerts),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Reads the persisted alerts, discarding them if they can't be parsed
+  private static load(): JobAlertsByCandidate {
+    const data = localStorage.getItem(STORAGE_KEYS.JOB_ALERTS);
+
+    if (!data) {
+      return {};
+    }
+
+    try {
+      return decodeJobAlerts(JSON.parse(data));
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.JOB_ALERTS);
+      return {};
+    }
+  }
+}
@@ -1,39 +1,125 @@
-import { apiClient } from "@/api";
-import { API_ENDPOINTS, STORAGE_KEYS } from "@/constants";
+import {
+  apiClient,
+  decodeResponse,
+  isApiError,
+  toInvalidEmailError,
+} from "@/api";
+import {
+  API_ENDPOINTS,
+  APPLY_RETRY_CONFIG,
+  IDEMPOTENCY_HEADER,
+  PAGINATION_CONFIG,
+  STORAGE_KEYS,
+} from "@/constants";
 import type {
-  Job,
+  JobListPage,
   Candidate,
   ApplyToJobDto,
   ApplyToJobResponse,
 } from "@/models";
+import {
+  decodeApplyToJobResponse,
+  decodeCandidate,
+  decodeJobListPage,
+} from "@/models";
+import { generateUuid, withRetry } from "@/utils";
+
+// Options accepted by every JobService request
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request, rejecting with an "aborted" ApiError
+}
+
+// Options accepted by JobService.getJobsList
+export interface JobListOptions extends RequestOptions {
+  cursor?: string; // Cursor returned by the previous page, omitted for the first one
+  limit?: number; // Page size, defaults to PAGINATION_CONFIG.JOBS_PAGE_SIZE
+}
+
+// Options accepted by JobService.applyToJob
+export interface ApplyToJobOptions extends RequestOptions {
+  // Called before each automatic retry with the upcoming attempt number
+  onRetry?: (attempt: number, maxAttempts: number) => void;
+}
+
+// Transient failures that are safe to retry thanks to the idempotency key
+const isRetryableError = (error: unknown): boolean =>
+  isApiError(error) &&
+  (error.kind === "network" ||
+    error.kind === "timeout" ||
+    (error.kind === "server" && (error.status ?? 500) >= 500));
 
 // Service that handles all operations related to jobs and candidates
 // Includes methods to get jobs, authenticate candidates and apply to positions
 export class JobService {
-  // Gets the complete list of available jobs from the API
-  static async getJobsList(): Promise<Job[]> {
-    const response = await apiClient.get<Job[]>(API_ENDPOINTS.JOBS.GET_LIST);
-    return response.data;
+  // Gets a page of the available jobs from the API
+  // Pages are chained through the cursor returned with each one
+  // An API without pagination answers every job at once as the last page
+  // Malformed entries are dropped, any other response shape is rejected
+  static async getJobsList({
+    signal,
+    cursor,
+    limit = PAGINATION_CONFIG.JOBS_PAGE_SIZE,
+  }: JobListOptions = {}): Promise<JobListPage> {
+    const endpoint = API_ENDPOINTS.JOBS.GET_LIST;
+    const response = await apiClient.get<unknown>(endpoint, {
+      params: { limit, cursor },
+      signal,
+    });
+    return decodeResponse(decodeJobListPage, response.data, endpoint);
   }
 
   // Authenticates a candidate by email and gets their data from the API
   // Automatically saves the data to localStorage for persistence
-  static async getCandidateByEmail(email: string): Promise<Candidate> {
-    const response = await apiClient.get<Candidate>(
-      API_ENDPOINTS.CANDIDATE.GET_BY_EMAIL(email),
-    );
-    this.saveCandidateData(response.data);
-    return response.data;
+  // An unknown or rejected email is reported as an INVALID_EMAIL ApiError
+  static async getCandidateByEmail(
+    email: string,
+    { signal }: RequestOptions = {},
+  ): Promise<Candidate> {
+    try {
+      const endpoint = API_ENDPOINTS.CANDIDATE.GET_BY_EMAIL(email);
+      const response = await apiClient.get<unknown>(endpoint, { signal });
+      const candidate = decodeResponse(decodeCandidate, response.data, endpoint);
+      this.saveCandidateData(candidate);
+      return candidate;
+    } catch (error) {
+      throw toInvalidEmailError(error);
+    }
   }
 
   // Sends a candidate's application to a specific job
-  // Requires uuid, candidateId, jobId and the GitHub repository URL
-  static async applyToJob(data: ApplyToJobDto): Promise<ApplyToJobResponse> {
-    const response = await apiClient.post<ApplyToJobResponse>(
-      API_ENDPOINTS.CANDIDATE.APPLY_TO_JOB,
-      data,
+  // Requires uuid, candidateId, jobId and the repository URL
+  // The client-generated uuid doubles as the idempotency key, so network
+  // errors, timeouts and 5xx responses are retried with exponential backoff
+  // without risking a duplicated application
+  // Every attempt shares one correlation ID in the request log
+  static async applyToJob(
+    data: ApplyToJobDto,
+    options: ApplyToJobOptions = {},
+  ): Promise<ApplyToJobResponse> {
+    const { MAX_ATTEMPTS, BASE_DELAY_MS, MAX_DELAY_MS } = APPLY_RETRY_CONFIG;
+
+    const endpoint = API_ENDPOINTS.CANDIDATE.APPLY_TO_JOB;
+    const correlationId = generateUuid();
+
+    return withRetry(
+      async (attempt) => {
+        const response = await apiClient.post<unknown>(endpoint, data, {
+          headers: { [IDEMPOTENCY_HEADER]: data.uuid },
+          signal: options.signal,
+          correlationId,
+          attempt,
+        });
+        return decodeResponse(decodeApplyToJobResponse, response.data, endpoint);
+      },
+      {
+        maxAttempts: MAX_ATTEMPTS,
+        baseDelayMs: BASE_DELAY_MS,
+        maxDelayMs: MAX_DELAY_MS,
+        shouldRetry: isRetryableError,
+        onRetry: (attempt) => options.onRetry?.(attempt, MAX_ATTEMPTS),
+        signal: options.signal,
+      },
     );
-    return response.data;
   }
 
   // Saves the candidate's data to localStorage
@@ -47,9 +133,23 @@ export class JobService {
 
   // Gets the candidate's data saved in localStorage
   // Returns null if there's no saved data
+  // Corrupted or outdated data is discarded so the candidate logs in again
   static getCandidateData(): Candidate | null {
     const data = localStorage.getItem(STORAGE_KEYS.CANDIDATE_DATA);
-    return data ? JSON.parse(data) : null;
+
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return decodeCandidate(JSON.parse(data));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn("Discarding saved candidate data:", error);
+      }
+      this.clearCandidateData();
+      return null;
+    }
   }
 
   // Removes the candidate's data from localStorage
@@ -0,0 +1,163 @@
+import { isApiError } from "@/api";
+import { STORAGE_KEYS } from "@/constants";
+import { decodeOutbox } from "@/models";
+import type { ApplyToJobDto, OutboxEntry } from "@/models";
+import { ApplicationHistoryService } from "./application-history.service";
+import { JobService } from "./job.service";
+
+type OutboxListener = () => void;
+type OutboxSyncedListener = (entry: OutboxEntry) => void;
+
+// Whether the failure means the browser couldn't reach the server
+// (as opposed to the server rejecting the application)
+export const isOfflineError = (error: unknown): boolean =>
+  !navigator.onLine || (isApiError(error) && error.kind === "network");
+
+// Service that manages the offline application outbox
+// Applications made while offline are persisted in localStorage and
+// replayed in order once connectivity returns. Each payload keeps its
+// client uuid, so a replay never duplicates an application
+export class OutboxService {
+  private static entries: OutboxEntry[] | null = null;
+  private static listeners = new Set<OutboxListener>();
+  private static syncedListeners = new Set<OutboxSyncedListener>();
+  private static flushing: Promise<void> | null = null;
+
+  // Gets the queued applications, loading them from localStorage the first time
+  // Entries left "syncing" by a closed tab are pending again
+  static getEntries(): OutboxEntry[] {
+    if (!this.entries) {
+      this.entries = this.load().map((entry) =>
+        entry.status === "syncing" ? { ...entry, status: "pending" } : entry,
+      );
+    }
+    return this.entries;
+  }
+
+  // Queues an application to be sent when the browser is back online
+  static enqueue(payload: ApplyToJobDto, jobTitle?: string): void {
+    const entry: OutboxEntry = {
+      payload,
+      jobTitle,
+      queuedAt: new Date().toISOString(),
+      status: "pending",
+    };
+    const entries = this.getEntries().filter(
+      (item) => item.payload.uuid !== payload.uuid,
+    );
+    this.setEntries([...entries, entry]);
+  }
+
+  // Removes a queued (or failed) application without sending it
+  static cancel(uuid: string): void {
+    this.setEntries(
+      this.getEntries().filter((entry) => entry.payload.uuid !== uuid),
+    );
+  }
+
+  // Registers a listener called whenever the outbox changes
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Registers a listener called when a queued application is delivered
+  static onSynced(listener: OutboxSyncedListener): () => void {
+    this.syncedListeners.add(listener);
+    return () => {
+      this.syncedListeners.delete(listener);
+    };
+  }
+
+  // Replays every pending application of the candidate, one at a time
+  // Only the logged-in candidate's entries are sent, since the requests
+  // carry their session token
+  // Stops at the first connectivity failure and leaves the rest pending
+  // Concurrent calls share the same run
+  static flush(candidateId: string): Promise<void> {
+    this.flushing ??= this.replayPending(candidateId).finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private static async replayPending(candidateId: string): Promise<void> {
+    const pending = this.getEntries().filter(
+      (entry) =>
+        entry.status === "pending" &&
+        entry.payload.candidateId === candidateId,
+    );
+
+    for (const entry of pending) {
+      const { uuid } = entry.payload;
+
+      // Skips entries cancelled while a previous one was being sent
+      if (!this.findEntry(uuid)) {
+        continue;
+      }
+
+      this.updateEntry(uuid, { status: "syncing" });
+
+      try {
+        const response = await JobService.applyToJob(entry.payload);
+        const synced = this.findEntry(uuid) ?? entry;
+        this.cancel(uuid);
+        ApplicationHistoryService.record(
+          synced.payload,
+          response,
+          synced.jobTitle,
+        );
+        this.syncedListeners.forEach((listener) => listener(synced));
+      } catch (error) {
+        if (isOfflineError(error)) {
+          this.updateEntry(uuid, { status: "pending" });
+          return;
+        }
+
+        this.updateEntry(uuid, {
+          status: "failed",
+          errorKind: isApiError(error) ? error.kind : "server",
+        });
+      }
+    }
+  }
+
+  private static findEntry(uuid: string): OutboxEntry | undefined {
+    return this.getEntries().find((entry) => entry.payload.uuid === uuid);
+  }
+
+  private static updateEntry(uuid: string, updates: Partial<OutboxEntry>): void {
+    this.setEntries(
+      this.getEntries().map((entry) =>
+        entry.payload.uuid === uuid ? { ...entry, ...updates } : entry,
+      ),
+    );
+  }
+
+  private static setEntries(entries: OutboxEntry[]): void {
+    this.entries = entries;
+    localStorage.setItem(
+      STORAGE_KEYS.APPLICATION_OUTBOX,
+      JSON.stringify(entries),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Reads the persisted outbox, discarding it if it can't be parsed
+  private static load(): OutboxEntry[] {
+    const data = localStorage.getItem(STORAGE_KEYS.APPLICATION_OUTBOX);
+
+    if (!data) {
+      return [];
+    }
+
+    try {
+      return decodeOutbox(JSON.parse(data));
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.APPLICATION_OUTBOX);
+      return [];
+    }
+  }
+}
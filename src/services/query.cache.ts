@@ -0,0 +1,137 @@
+import { isAbortError } from "@/api";
+
+// Snapshot of a cached query, replaced (never mutated) on every change
+// so it can be read through useSyncExternalStore
+export interface QueryState<T> {
+  data: T | undefined; // Last successfully fetched data
+  error: unknown; // Error of the last fetch, cleared on success
+  updatedAt: number; // Timestamp of the last successful fetch, 0 if never
+  isFetching: boolean; // Whether a request is currently in flight
+}
+
+interface QueryEntry<T> {
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  listeners: Set<() => void>;
+}
+
+// Function that loads the data of a query, cancellable through the signal
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+const createInitialState = <T>(): QueryState<T> => ({
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+});
+
+// Small in-memory cache of async queries keyed by string
+// Deduplicates concurrent requests for the same key and notifies
+// subscribers whenever the state of a key changes
+// A request is aborted once nobody is subscribed to its key anymore
+class QueryCache {
+  private entries = new Map<string, QueryEntry<unknown>>();
+
+  private getEntry<T>(key: string): QueryEntry<T> {
+    let entry = this.entries.get(key) as QueryEntry<T> | undefined;
+
+    if (!entry) {
+      entry = {
+        state: createInitialState<T>(),
+        promise: null,
+        controller: null,
+        listeners: new Set(),
+      };
+      this.entries.set(key, entry as QueryEntry<unknown>);
+    }
+
+    return entry;
+  }
+
+  private setState<T>(key: string, updates: Partial<QueryState<T>>): void {
+    const entry = this.getEntry<T>(key);
+    entry.state = { ...entry.state, ...updates };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getState<T>(key: string): QueryState<T> {
+    return this.getEntry<T>(key).state;
+  }
+
+  // Registers a listener called on every state change of the key
+  // Returns the function that removes it
+  // The check for remaining listeners is deferred so that a component that
+  // resubscribes right away (re-render, StrictMode remount) keeps the request
+  subscribe(key: string, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      setTimeout(() => {
+        if (entry.listeners.size === 0 && entry.controller) {
+          // Detached right away so a later fetch doesn't reuse the aborted promise
+          entry.controller.abort();
+          entry.promise = null;
+          entry.controller = null;
+          this.setState(key, { isFetching: false });
+        }
+      });
+    };
+  }
+
+  // Whether the cached data is missing or older than ttl milliseconds
+  isStale(key: string, ttl: number): boolean {
+    const { updatedAt } = this.getState(key);
+    return updatedAt === 0 || Date.now() - updatedAt > ttl;
+  }
+
+  // Runs the fetcher and caches its result
+  // While a request for the key is in flight, the same promise is returned
+  // instead of starting a new one
+  fetch<T>(key: string, fetcher: QueryFetcher<T>): Promise<T> {
+    const entry = this.getEntry<T>(key);
+
+    if (entry.promise) {
+      return entry.promise;
+    }
+
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+      .then((data) => {
+        this.setState<T>(key, {
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+        });
+        return data;
+      })
+      .catch((error: unknown) => {
+        // An aborted request is not a failure, the previous error is kept
+        if (!isAbortError(error)) {
+          this.setState<T>(key, { error, isFetching: false });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          entry.controller = null;
+        }
+      });
+
+    entry.promise = promise;
+    entry.controller = controller;
+    this.setState<T>(key, { isFetching: true });
+
+    return promise;
+  }
+
+  // Marks the cached data as stale so the next read fetches it again
+  invalidate(key: string): void {
+    this.setState(key, { updatedAt: 0 });
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,85 @@
+import { envConfig } from "@/config";
+import { REPOSITORY_INSPECTION_CONFIG } from "@/constants";
+import type { RepositoryInspection, RepositoryRef } from "@/models";
+import { buildRepositoryUrl } from "@/utils";
+import {
+  FakeRepositoryInspector,
+  PublicApiRepositoryInspector,
+} from "./repository-inspectors";
+import type { RepositoryInspector } from "./repository-inspectors";
+
+interface CachedInspection {
+  inspection: RepositoryInspection;
+  checkedAt: number;
+}
+
+// Service that runs the pre-flight check of a repository before it's submitted
+// The inspector is pluggable: it's picked by envConfig.repositories.inspector
+// ("public-api", "fake" or "off") and can be replaced with setInspector
+// Repositories that pass are cached for a few minutes by canonical URL, so
+// checking again before submitting doesn't hit the host again
+export class RepositoryInspectionService {
+  private static inspector: RepositoryInspector | null | undefined;
+  private static cache = new Map<string, CachedInspection>();
+
+  // Whether repositories are checked before being submitted
+  static isEnabled(): boolean {
+    return this.getInspector() !== null;
+  }
+
+  // Replaces the configured inspector, null disables the check
+  static setInspector(inspector: RepositoryInspector | null): void {
+    this.inspector = inspector;
+    this.cache.clear();
+  }
+
+  // Checks that the repository exists, is public and has commits
+  // Rejects when it couldn't be checked (or there's no inspector), so the
+  // caller can let the candidate submit it anyway
+  static async inspect(
+    repository: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    const inspector = this.getInspector();
+    if (!inspector) {
+      throw new Error("Repository inspection is disabled");
+    }
+
+    const url = buildRepositoryUrl({ ...repository, branch: undefined });
+    const cached = this.cache.get(url);
+
+    if (
+      cached &&
+      Date.now() - cached.checkedAt < REPOSITORY_INSPECTION_CONFIG.CACHE_TTL_MS
+    ) {
+      return cached.inspection;
+    }
+
+    const inspection = await inspector.inspect(repository, signal);
+
+    // Problems aren't cached, the candidate may fix them and try again
+    if (inspection.ok) {
+      this.cache.set(url, { inspection, checkedAt: Date.now() });
+    }
+
+    return inspection;
+  }
+
+  // Creates the configured inspector the first time it's needed
+  private static getInspector(): RepositoryInspector | null {
+    if (this.inspector === undefined) {
+      switch (envConfig.repositories.inspector) {
+        case "fake":
+          this.inspector = new FakeRepositoryInspector(envConfig.mock.latency);
+          break;
+        case "off":
+          this.inspector = null;
+          break;
+        default:
+          this.inspector = new PublicApiRepositoryInspector();
+      }
+    }
+
+    return this.inspector;
+  }
+}
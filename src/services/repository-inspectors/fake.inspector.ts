@@ -0,0 +1,62 @@
+import type {
+  RepositoryInspection,
+  RepositoryInspectionProblem,
+  RepositoryRef,
+} from "@/models";
+import { wait } from "@/utils/retry";
+import type { RepositoryInspector } from "./repository-inspector.types";
+
+// Words in a repository name that make the fake inspector report a problem
+const FAKE_PROBLEMS: [keyword: string, problem: RepositoryInspectionProblem][] =
+  [
+    ["missing", "not-found"],
+    ["private", "private"],
+    ["empty", "empty"],
+    ["archived", "archived"],
+  ];
+
+const FAKE_LANGUAGES = ["TypeScript", "JavaScript", "Python", "Go", "Java"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stable number derived from a text, so a repository always gets the same summary
+const hashText = (text: string): number =>
+  [...text].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+// Inspector that answers from the repository name alone, without the network
+// Backs the pre-flight check in demos, with the mock backend and offline:
+// names containing "missing", "private", "empty" or "archived" fail with
+// that problem, any other repository is public with a summary derived from
+// its name (a language and a last commit within the last 90 days)
+export class FakeRepositoryInspector implements RepositoryInspector {
+  private readonly latencyMs: number;
+
+  constructor(latencyMs = 0) {
+    this.latencyMs = latencyMs;
+  }
+
+  async inspect(
+    repository: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    await wait(this.latencyMs, signal);
+
+    const name = repository.repo.toLowerCase();
+    const match = FAKE_PROBLEMS.find(([keyword]) => name.includes(keyword));
+
+    if (match) {
+      return { ok: false, problem: match[1] };
+    }
+
+    const seed = hashText(`${repository.owner}/${repository.repo}`);
+
+    return {
+      ok: true,
+      summary: {
+        defaultBranch: "main",
+        lastCommitAt: new Date(Date.now() - (seed % 90) * DAY_MS).toISOString(),
+        primaryLanguage: FAKE_LANGUAGES[seed % FAKE_LANGUAGES.length],
+      },
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./repository-inspector.types";
+export * from "./fake.inspector";
+export * from "./public-api.inspector";
@@ -0,0 +1,329 @@
+import type { RepositoryInspection, RepositoryRef } from "@/models";
+import {
+  booleanDecoder,
+  dateDecoder,
+  numberDecoder,
+  objectDecoder,
+  optionalDecoder,
+  recordDecoder,
+  stringDecoder,
+} from "@/utils/decoder";
+import type { Decoder } from "@/utils/decoder";
+import type { RepositoryInspector } from "./repository-inspector.types";
+
+// Fields of the repository responses of the hosts, only the ones read here
+// Every field is optional since each host (and version) returns a different set
+
+interface GitHubRepository {
+  private?: boolean;
+  archived?: boolean;
+  default_branch?: string;
+  language?: string;
+}
+
+interface GitLabProject {
+  visibility?: string;
+  archived?: boolean;
+  default_branch?: string;
+  empty_repo?: boolean;
+}
+
+interface BitbucketRepository {
+  is_private?: boolean;
+  language?: string;
+  mainbranch?: { name: string };
+}
+
+interface GiteaRepository {
+  private?: boolean;
+  archived?: boolean;
+  empty?: boolean;
+  default_branch?: string;
+}
+
+const gitHubRepositoryDecoder = objectDecoder<GitHubRepository>({
+  private: optionalDecoder(booleanDecoder),
+  archived: optionalDecoder(booleanDecoder),
+  default_branch: optionalDecoder(stringDecoder),
+  language: optionalDecoder(stringDecoder),
+});
+
+const gitLabProjectDecoder = objectDecoder<GitLabProject>({
+  visibility: optionalDecoder(stringDecoder),
+  archived: optionalDecoder(booleanDecoder),
+  default_branch: optionalDecoder(stringDecoder),
+  empty_repo: optionalDecoder(booleanDecoder),
+});
+
+const bitbucketRepositoryDecoder = objectDecoder<BitbucketRepository>({
+  is_private: optionalDecoder(booleanDecoder),
+  language: optionalDecoder(stringDecoder),
+  mainbranch: optionalDecoder(objectDecoder({ name: stringDecoder })),
+});
+
+const giteaRepositoryDecoder = objectDecoder<GiteaRepository>({
+  private: optionalDecoder(booleanDecoder),
+  archived: optionalDecoder(booleanDecoder),
+  empty: optionalDecoder(booleanDecoder),
+  default_branch: optionalDecoder(stringDecoder),
+});
+
+// Bytes (or percentage) of code per language
+const languagesDecoder: Decoder<Record<string, number>> =
+  recordDecoder(numberDecoder);
+
+// Reads a nested field of an untyped response
+const readPath = (value: unknown, keys: string[]): unknown =>
+  keys.reduce<unknown>(
+    (current, key) =>
+      current && typeof current === "object"
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value,
+  );
+
+// Date of the latest commit of a commit list (newest first), read from the
+// given field of the commit
+const getLatestCommitDate = (
+  commits: unknown,
+  ...dateField: string[]
+): string | undefined =>
+  Array.isArray(commits) && commits.length > 0
+    ? optionalDecoder(dateDecoder)(
+        readPath(commits[0], dateField),
+        "commits[0]",
+      )
+    : undefined;
+
+// Language with the most code in a languages response, undefined when
+// none is detected
+const getPrimaryLanguage = (languages: unknown): string | undefined =>
+  languages === null
+    ? undefined
+    : Object.entries(languagesDecoder(languages, "languages")).sort(
+        ([, a], [, b]) => b - a,
+      )[0]?.[0];
+
+const encodePath = (...segments: string[]): string =>
+  segments.map(encodeURIComponent).join("/");
+
+// Inspector that asks the public API of each repository host, anonymously
+// Only what any reviewer could see is checked, so private repositories are
+// usually reported as "not-found" (the hosts hide them)
+// Requests use fetch rather than apiClient, which would send the session
+// token of the job portal to a third party
+export class PublicApiRepositoryInspector implements RepositoryInspector {
+  async inspect(
+    repository: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    switch (repository.provider) {
+      case "github":
+        return this.inspectGitHub(repository, signal);
+      case "gitlab":
+        return this.inspectGitLab(repository, signal);
+      case "bitbucket":
+        return this.inspectBitbucket(repository, signal);
+      case "gitea":
+        return this.inspectGitea(repository, signal);
+    }
+  }
+
+  // Fetches a JSON resource, resolving with null when it doesn't exist
+  // Any other failure rejects, since the repository couldn't be checked
+  private async getJson(
+    url: string,
+    signal?: AbortSignal,
+    missingStatuses: number[] = [404],
+  ): Promise<unknown> {
+    const response = await fetch(url, {
+      signal,
+      headers: { Accept: "application/json" },
+    });
+
+    if (missingStatuses.includes(response.status)) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`${new URL(url).host} answered ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  private async inspectGitHub(
+    { host, owner, repo }: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    // GitHub Enterprise serves the API under /api/v3 of its own host
+    const api =
+      host === "github.com"
+        ? "https://api.github.com"
+        : `https://${host}/api/v3`;
+    const base = `${api}/repos/${encodePath(owner, repo)}`;
+
+    const data = await this.getJson(base, signal);
+    if (data === null) {
+      return { ok: false, problem: "not-found" };
+    }
+
+    const details = gitHubRepositoryDecoder(data, "repository");
+    if (details.private) {
+      return { ok: false, problem: "private" };
+    }
+    if (details.archived) {
+      return { ok: false, problem: "archived" };
+    }
+
+    const defaultBranch = details.default_branch ?? "main";
+    // An empty repository answers its commit list with 409 Conflict
+    const commits = await this.getJson(
+      `${base}/commits?sha=${encodeURIComponent(defaultBranch)}&per_page=1`,
+      signal,
+      [404, 409],
+    );
+    if (!Array.isArray(commits) || commits.length === 0) {
+      return { ok: false, problem: "empty" };
+    }
+
+    return {
+      ok: true,
+      summary: {
+        defaultBranch,
+        lastCommitAt: getLatestCommitDate(
+          commits,
+          "commit",
+          "committer",
+          "date",
+        ),
+        primaryLanguage: details.language,
+      },
+    };
+  }
+
+  private async inspectGitLab(
+    { host, owner, repo }: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    // Projects are addressed by their URL-encoded full path
+    const base = `https://${host}/api/v4/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+    const data = await this.getJson(base, signal);
+    if (data === null) {
+      return { ok: false, problem: "not-found" };
+    }
+
+    const details = gitLabProjectDecoder(data, "project");
+    if (details.visibility && details.visibility !== "public") {
+      return { ok: false, problem: "private" };
+    }
+    if (details.archived) {
+      return { ok: false, problem: "archived" };
+    }
+    if (details.empty_repo || !details.default_branch) {
+      return { ok: false, problem: "empty" };
+    }
+
+    const [commits, languages] = await Promise.all([
+      this.getJson(
+        `${base}/repository/commits?ref_name=${encodeURIComponent(details.default_branch)}&per_page=1`,
+        signal,
+      ),
+      this.getJson(`${base}/languages`, signal),
+    ]);
+
+    return {
+      ok: true,
+      summary: {
+        defaultBranch: details.default_branch,
+        lastCommitAt: getLatestCommitDate(commits, "committed_date"),
+        primaryLanguage: getPrimaryLanguage(languages),
+      },
+    };
+  }
+
+  private async inspectBitbucket(
+    { host, owner, repo }: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    // Self-hosted Bitbucket (Data Center) has a different API
+    if (host !== "bitbucket.org") {
+      throw new Error(`${host} can't be inspected`);
+    }
+
+    const base = `https://api.bitbucket.org/2.0/repositories/${encodePath(owner, repo)}`;
+
+    // Private repositories answer anonymous requests with 403
+    const data = await this.getJson(base, signal, [403, 404]);
+    if (data === null) {
+      return { ok: false, problem: "not-found" };
+    }
+
+    const details = bitbucketRepositoryDecoder(data, "repository");
+    if (details.is_private) {
+      return { ok: false, problem: "private" };
+    }
+    // The main branch is only set once something was pushed
+    if (!details.mainbranch) {
+      return { ok: false, problem: "empty" };
+    }
+
+    const commits = await this.getJson(
+      `${base}/commits/${encodeURIComponent(details.mainbranch.name)}?pagelen=1`,
+      signal,
+    );
+
+    return {
+      ok: true,
+      summary: {
+        defaultBranch: details.mainbranch.name,
+        lastCommitAt: getLatestCommitDate(
+          readPath(commits, ["values"]),
+          "date",
+        ),
+        primaryLanguage: details.language || undefined,
+      },
+    };
+  }
+
+  private async inspectGitea(
+    { host, owner, repo }: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection> {
+    const base = `https://${host}/api/v1/repos/${encodePath(owner, repo)}`;
+
+    const data = await this.getJson(base, signal);
+    if (data === null) {
+      return { ok: false, problem: "not-found" };
+    }
+
+    const details = giteaRepositoryDecoder(data, "repository");
+    if (details.private) {
+      return { ok: false, problem: "private" };
+    }
+    if (details.archived) {
+      return { ok: false, problem: "archived" };
+    }
+    if (details.empty || !details.default_branch) {
+      return { ok: false, problem: "empty" };
+    }
+
+    const [commits, languages] = await Promise.all([
+      this.getJson(
+        `${base}/commits?sha=${encodeURIComponent(details.default_branch)}&limit=1&stat=false`,
+        signal,
+      ),
+      this.getJson(`${base}/languages`, signal),
+    ]);
+
+    return {
+      ok: true,
+      summary: {
+        defaultBranch: details.default_branch,
+        lastCommitAt: getLatestCommitDate(commits, "created"),
+        primaryLanguage: getPrimaryLanguage(languages),
+      },
+    };
+  }
+}
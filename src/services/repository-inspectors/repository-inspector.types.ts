@@ -0,0 +1,12 @@
+import type { RepositoryInspection, RepositoryRef } from "@/models";
+
+// Checks a repository before an application is submitted
+// Resolves with the problem found (missing, private, empty, archived) or a
+// summary of the repository, and rejects when the check itself couldn't be
+// made (network errors, rate limits, unsupported hosts...)
+export interface RepositoryInspector {
+  inspect(
+    repository: RepositoryRef,
+    signal?: AbortSignal,
+  ): Promise<RepositoryInspection>;
+}
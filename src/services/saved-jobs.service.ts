@@ -0,0 +1,66 @@
+import { STORAGE_KEYS } from "@/constants";
+import { decodeSavedJobs } from "@/models";
+import type { SavedJobsByCandidate } from "@/models";
+
+type SavedJobsListener = () => void;
+
+const NO_SAVED_JOBS: string[] = [];
+
+// Service that keeps the jobs each candidate saved to come back to later
+// The lists are persisted in localStorage keyed by candidateId, so
+// candidates sharing a browser never see each other's saved jobs
+export class SavedJobsService {
+  private static savedJobs: SavedJobsByCandidate | null = null;
+  private static listeners = new Set<SavedJobsListener>();
+
+  // Gets the IDs of the jobs the candidate saved, in the order they were saved
+  // The same array is returned until the candidate's list changes
+  static getSavedJobIds(candidateId: string): string[] {
+    return this.getAll()[candidateId] ?? NO_SAVED_JOBS;
+  }
+
+  // Saves the job, or removes it if the candidate already saved it
+  static toggle(candidateId: string, jobId: string): void {
+    const saved = this.getSavedJobIds(candidateId);
+    const next = saved.includes(jobId)
+      ? saved.filter((id) => id !== jobId)
+      : [...saved, jobId];
+
+    this.setAll({ ...this.getAll(), [candidateId]: next });
+  }
+
+  // Registers a listener called whenever a saved list changes
+  static subscribe(listener: SavedJobsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static getAll(): SavedJobsByCandidate {
+    this.savedJobs ??= this.load();
+    return this.savedJobs;
+  }
+
+  private static setAll(savedJobs: SavedJobsByCandidate): void {
+    this.savedJobs = savedJobs;
+    localStorage.setItem(STORAGE_KEYS.SAVED_JOBS, JSON.stringify(savedJobs));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Reads the persisted lists, discarding them if they can't be parsed
+  private static load(): SavedJobsByCandidate {
+    const data = localStorage.getItem(STORAGE_KEYS.SAVED_JOBS);
+
+    if (!data) {
+      return {};
+    }
+
+    try {
+      return decodeSavedJobs(JSON.parse(data));
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.SAVED_JOBS);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,24 @@
+// Runs the worker over every item, with at most `limit` of them in flight
+// Items start in order as soon as a slot frees up
+// Once the signal is aborted no new item starts; the ones in flight are
+// expected to stop through the same signal
+// Resolves when every started item has finished, whatever their outcome,
+// so the worker should handle its own errors
+export const runWithConcurrency = async <T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> => {
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item).catch(() => undefined);
+    }
+  };
+
+  const slots = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: slots }, runNext));
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DecodeError,
+  arrayDecoder,
+  dateDecoder,
+  numberDecoder,
+  objectDecoder,
+  oneOfDecoder,
+  optionalDecoder,
+  recordDecoder,
+  stringDecoder,
+} from "./decoder";
+
+describe("primitive decoders", () => {
+  it("trims strings and repairs numeric IDs", () => {
+    expect(stringDecoder("  jane ", "name")).toBe("jane");
+    expect(stringDecoder(42, "id")).toBe("42");
+    expect(() => stringDecoder("  ", "name")).toThrow(DecodeError);
+  });
+
+  it("repairs numeric strings into numbers", () => {
+    expect(numberDecoder("12.5", "amount")).toBe(12.5);
+    expect(() => numberDecoder("", "amount")).toThrow(DecodeError);
+    expect(() => numberDecoder(Infinity, "amount")).toThrow(DecodeError);
+  });
+
+  it("normalizes dates to ISO strings", () => {
+    expect(dateDecoder(0, "date")).toBe("1970-01-01T00:00:00.000Z");
+    expect(dateDecoder("2024-05-01T12:00:00Z", "date")).toBe(
+      "2024-05-01T12:00:00.000Z",
+    );
+    expect(() => dateDecoder("yesterday", "date")).toThrow(DecodeError);
+  });
+
+  it("accepts only the given literals", () => {
+    const decoder = oneOfDecoder(["a", "b"] as const);
+
+    expect(decoder("a", "option")).toBe("a");
+    expect(() => decoder("c", "option")).toThrow(
+      "option: expected one of a, b",
+    );
+  });
+});
+
+describe("optionalDecoder", () => {
+  it("repairs missing and invalid values into undefined", () => {
+    const decoder = optionalDecoder(numberDecoder);
+
+    expect(decoder(null, "amount")).toBeUndefined();
+    expect(decoder("abc", "amount")).toBeUndefined();
+    expect(decoder("3", "amount")).toBe(3);
+  });
+});
+
+describe("arrayDecoder", () => {
+  it("names the offending item", () => {
+    expect(() => arrayDecoder(stringDecoder)(["a", ""], "tags")).toThrow(
+      "tags[1]: expected non-empty string, received empty string",
+    );
+  });
+
+  it("drops invalid items when asked to", () => {
+    const onInvalidItem = vi.fn();
+    const decoder = arrayDecoder(stringDecoder, {
+      skipInvalid: true,
+      onInvalidItem,
+    });
+
+    expect(decoder(["a", null, "b"], "tags")).toEqual(["a", "b"]);
+    expect(onInvalidItem).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "tags[1]" }),
+    );
+  });
+});
+
+describe("objectDecoder", () => {
+  const decoder = objectDecoder<{ id: string; note?: string }>({
+    id: stringDecoder,
+    note: optionalDecoder(stringDecoder),
+  });
+
+  it("keeps the known fields only", () => {
+    expect(decoder({ id: 1, note: "hi", extra: true }, "item")).toEqual({
+      id: "1",
+      note: "hi",
+    });
+    expect(decoder({ id: "1", note: "" }, "item")).toEqual({ id: "1" });
+  });
+
+  it("rejects non-objects and missing required fields", () => {
+    expect(() => decoder([], "item")).toThrow("item: expected object");
+    expect(() => decoder({}, "item")).toThrow("item.id");
+  });
+});
+
+describe("recordDecoder", () => {
+  it("drops the entries whose value is rejected", () => {
+    expect(recordDecoder(numberDecoder)({ a: 1, b: "x" }, "counts")).toEqual({
+      a: 1,
+    });
+  });
+});
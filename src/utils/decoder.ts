@@ -0,0 +1,191 @@
+// Runtime decoders used to validate untrusted data (API responses, localStorage)
+// against the compile-time models. A decoder either returns a valid (and
+// possibly repaired) value or throws a DecodeError describing what's wrong.
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+// Error thrown when a value doesn't match the expected shape
+// The path points to the offending field, e.g. "jobs[2].title"
+export class DecodeError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`${path}: expected ${expected}, received ${describeValue(value)}`);
+    this.name = "DecodeError";
+    this.path = path;
+  }
+}
+
+export const isDecodeError = (err: unknown): err is DecodeError =>
+  err instanceof DecodeError;
+
+// Short description of a value for error messages
+const describeValue = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+
+  if (Array.isArray(value)) {
+    return "array";
+  }
+
+  if (typeof value === "string") {
+    return value ? `"${value.slice(0, 40)}"` : "empty string";
+  }
+
+  return typeof value;
+};
+
+// Non-empty string, trimmed
+// Finite numbers are repaired into strings (e.g. numeric IDs)
+export const stringDecoder: Decoder<string> = (value, path) => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    throw new DecodeError(path, "non-empty string", value);
+  }
+
+  return value.trim();
+};
+
+export const booleanDecoder: Decoder<boolean> = (value, path) => {
+  if (typeof value !== "boolean") {
+    throw new DecodeError(path, "boolean", value);
+  }
+
+  return value;
+};
+
+// Finite number, numeric strings are repaired into numbers
+export const numberDecoder: Decoder<number> = (value, path) => {
+  const number =
+    typeof value === "string" && value.trim() ? Number(value) : value;
+
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new DecodeError(path, "number", value);
+  }
+
+  return number;
+};
+
+// Date string (or timestamp in milliseconds), normalized to an ISO date
+export const dateDecoder: Decoder<string> = (value, path) => {
+  const date =
+    typeof value === "string" || typeof value === "number"
+      ? new Date(value)
+      : null;
+
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new DecodeError(path, "date", value);
+  }
+
+  return date.toISOString();
+};
+
+// Accepts one of the given string literals
+export const oneOfDecoder =
+  <T extends string>(options: readonly T[]): Decoder<T> =>
+  (value, path) => {
+    const match = options.find((option) => option === value);
+
+    if (!match) {
+      throw new DecodeError(path, `one of ${options.join(", ")}`, value);
+    }
+
+    return match;
+  };
+
+// Makes a field optional: null, undefined and values rejected by the inner
+// decoder are repaired into undefined instead of failing the whole object
+export const optionalDecoder =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path) => {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    try {
+      return decoder(value, path);
+    } catch (err) {
+      if (!isDecodeError(err)) {
+        throw err;
+      }
+      return undefined;
+    }
+  };
+
+interface ArrayDecoderOptions {
+  // Drops invalid items instead of rejecting the whole array
+  // Each dropped item is reported through onInvalidItem
+  skipInvalid?: boolean;
+  onInvalidItem?: (error: DecodeError) => void;
+}
+
+export const arrayDecoder =
+  <T>(decoder: Decoder<T>, options: ArrayDecoderOptions = {}): Decoder<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new DecodeError(path, "array", value);
+    }
+
+    return value.flatMap((item, index) => {
+      try {
+        return [decoder(item, `${path}[${index}]`)];
+      } catch (err) {
+        if (!options.skipInvalid || !isDecodeError(err)) {
+          throw err;
+        }
+        options.onInvalidItem?.(err);
+        return [];
+      }
+    });
+  };
+
+// Object whose fields are each validated by their own decoder
+// Unknown fields are dropped
+export const objectDecoder =
+  <T>(shape: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> =>
+  (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new DecodeError(path, "object", value);
+    }
+
+    const record = value as Record<string, unknown>;
+    const result = {} as T;
+
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      const decoded = shape[key](record[key], `${path}.${key}`);
+
+      if (decoded !== undefined) {
+        result[key] = decoded;
+      }
+    });
+
+    return result;
+  };
+
+// Object used as a dictionary: every value is validated by the same decoder
+// Entries whose value is rejected are dropped
+export const recordDecoder =
+  <T>(decoder: Decoder<T>): Decoder<Record<string, T>> =>
+  (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new DecodeError(path, "object", value);
+    }
+
+    const result: Record<string, T> = {};
+
+    Object.entries(value).forEach(([key, item]) => {
+      try {
+        result[key] = decoder(item, `${path}.${key}`);
+      } catch (err) {
+        if (!isDecodeError(err)) {
+          throw err;
+        }
+      }
+    });
+
+    return result;
+  };
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { EmailAllowlist } from "@/models";
+import {
+  isValidEmail,
+  normalizeEmail,
+  parseEmailAllowlist,
+  suggestEmail,
+  validateEmail,
+} from "./email";
+
+const UNRESTRICTED: EmailAllowlist = { domains: [], addresses: [] };
+
+describe("isValidEmail", () => {
+  it("accepts well-formed addresses", () => {
+    expect(isValidEmail("jane.doe+jobs@mail.acme.com")).toBe(true);
+    expect(isValidEmail(" jane@acme.io ")).toBe(true);
+  });
+
+  it("rejects malformed addresses", () => {
+    expect(isValidEmail("jane")).toBe(false);
+    expect(isValidEmail("jane@acme")).toBe(false);
+    expect(isValidEmail("jane..doe@acme.com")).toBe(false);
+    expect(isValidEmail(".jane@acme.com")).toBe(false);
+    expect(isValidEmail("jane doe@acme.com")).toBe(false);
+    expect(isValidEmail("jane@-acme.com")).toBe(false);
+  });
+});
+
+describe("normalizeEmail", () => {
+  it("trims and lowercases the address", () => {
+    expect(normalizeEmail("  Jane@Acme.COM ")).toBe("jane@acme.com");
+  });
+});
+
+describe("parseEmailAllowlist", () => {
+  it("reads domains and addresses, dropping duplicates", () => {
+    expect(
+      parseEmailAllowlist("acme.com, @Acme.com, jane@partner.org, ,acme.com"),
+    ).toEqual({
+      allowlist: { domains: ["acme.com"], addresses: ["jane@partner.org"] },
+      invalid: [],
+    });
+  });
+
+  it("returns the entries it can't parse", () => {
+    expect(parseEmailAllowlist("acme, jane@partner, ok.com").invalid).toEqual([
+      "acme",
+      "jane@partner",
+    ]);
+  });
+});
+
+describe("validateEmail", () => {
+  const allowlist: EmailAllowlist = {
+    domains: ["acme.com"],
+    addresses: ["jane@partner.org"],
+  };
+
+  it("checks the format", () => {
+    expect(validateEmail("  ", UNRESTRICTED)).toBe("empty");
+    expect(validateEmail("jane@", UNRESTRICTED)).toBe("invalid-format");
+    expect(validateEmail("jane@anywhere.com", UNRESTRICTED)).toBeNull();
+  });
+
+  it("checks the allowlist when there's one", () => {
+    expect(validateEmail("John@ACME.com", allowlist)).toBeNull();
+    expect(validateEmail("jane@partner.org", allowlist)).toBeNull();
+    expect(validateEmail("john@partner.org", allowlist)).toBe("not-allowed");
+    expect(validateEmail("john@sub.acme.com", allowlist)).toBe("not-allowed");
+  });
+});
+
+describe("suggestEmail", () => {
+  it("suggests common providers for mistyped domains", () => {
+    expect(suggestEmail("jane@gmial.com", UNRESTRICTED)).toBe("jane@gmail.com");
+    expect(suggestEmail("jane@gmail.con", UNRESTRICTED)).toBe("jane@gmail.com");
+    expect(suggestEmail("jane@gamil.con", UNRESTRICTED)).toBe("jane@gmail.com");
+    expect(suggestEmail("Jane.Doe@hotmial.com", UNRESTRICTED)).toBe(
+      "Jane.Doe@hotmail.com",
+    );
+  });
+
+  it("suggests the domains of the allowlist", () => {
+    const allowlist: EmailAllowlist = {
+      domains: ["nimblegravity.com"],
+      addresses: ["jane@partner.org"],
+    };
+
+    expect(suggestEmail("john@nimblegravty.com", allowlist)).toBe(
+      "john@nimblegravity.com",
+    );
+    expect(suggestEmail("john@partnr.org", allowlist)).toBe("john@partner.org");
+  });
+
+  it("never swaps a known TLD", () => {
+    expect(suggestEmail("jane@hotmail.de", UNRESTRICTED)).toBeNull();
+    expect(suggestEmail("jane@hotmail.fr", UNRESTRICTED)).toBeNull();
+    expect(suggestEmail("jane@outlook.de", UNRESTRICTED)).toBeNull();
+  });
+
+  it("returns null when there's nothing to suggest", () => {
+    expect(suggestEmail("jane@gmail.com", UNRESTRICTED)).toBeNull();
+    expect(suggestEmail("jane@acme.com", UNRESTRICTED)).toBeNull();
+    expect(suggestEmail("jane@me.co", UNRESTRICTED)).toBeNull();
+    expect(suggestEmail("not an email", UNRESTRICTED)).toBeNull();
+  });
+});
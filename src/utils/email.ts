@@ -0,0 +1,208 @@
+import { envConfig } from "@/config/env.config";
+import {
+  COMMON_EMAIL_DOMAINS,
+  EMAIL_SUGGESTION_CONFIG,
+  KNOWN_EMAIL_TLDS,
+} from "@/constants/email.constants";
+import type { EmailAllowlist, EmailErrorReason } from "@/models";
+
+// "name@domain.tld": a local part without spaces or consecutive, leading or
+// trailing dots, and a domain of letters, digits and hyphens with a TLD
+const EMAIL =
+  /^[\w!#$%&'*+/=?^`{|}~-]+(?:\.[\w!#$%&'*+/=?^`{|}~-]+)*@(?:[a-z\d](?:[a-z\d-]*[a-z\d])?\.)+[a-z]{2,}$/i;
+
+// Domain of an allowlist entry, e.g. "acme.com"
+const DOMAIN = /^(?:[a-z\d](?:[a-z\d-]*[a-z\d])?\.)+[a-z]{2,}$/;
+
+// Form in which an email is checked and sent to the API
+export const normalizeEmail = (email: string): string =>
+  email.trim().toLowerCase();
+
+const getDomain = (email: string): string =>
+  email.slice(email.lastIndexOf("@") + 1);
+
+export const isValidEmail = (input: string): boolean =>
+  EMAIL.test(input.trim());
+
+// Parses the auth.allowedEmails setting: a comma-separated list of domains
+// ("acme.com", also written "@acme.com") and full addresses
+// ("jane@partner.org")
+// Entries that can't be parsed are returned in invalid, duplicates are dropped
+export const parseEmailAllowlist = (
+  setting: string,
+): { allowlist: EmailAllowlist; invalid: string[] } => {
+  const allowlist: EmailAllowlist = { domains: [], addresses: [] };
+  const invalid: string[] = [];
+
+  setting
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const value = entry.toLowerCase().replace(/^@/, "");
+      const list = value.includes("@")
+        ? allowlist.addresses
+        : allowlist.domains;
+
+      if (value.includes("@") ? !isValidEmail(value) : !DOMAIN.test(value)) {
+        invalid.push(entry);
+      } else if (!list.includes(value)) {
+        list.push(value);
+      }
+    });
+
+  return { allowlist, invalid };
+};
+
+// Addresses allowed to sign in
+// The configured candidate email (auth.email) is always allowed
+// The configuration is validated at startup, so invalid entries never get here
+export const getEmailAllowlist = (): EmailAllowlist => {
+  const { allowlist } = parseEmailAllowlist(envConfig.auth.allowedEmails);
+  const configured = normalizeEmail(envConfig.auth.email);
+  const isRestricted =
+    allowlist.domains.length > 0 || allowlist.addresses.length > 0;
+
+  if (isRestricted && configured && !allowlist.addresses.includes(configured)) {
+    allowlist.addresses.push(configured);
+  }
+
+  return allowlist;
+};
+
+// Checks an email before it's sent to the API: its syntax, then the allowlist
+// Returns why it was rejected, or null when it can be sent
+export const validateEmail = (
+  input: string,
+  allowlist: EmailAllowlist = getEmailAllowlist(),
+): EmailErrorReason | null => {
+  const email = normalizeEmail(input);
+
+  if (!email) {
+    return "empty";
+  }
+
+  if (!isValidEmail(email)) {
+    return "invalid-format";
+  }
+
+  const isRestricted =
+    allowlist.domains.length > 0 || allowlist.addresses.length > 0;
+
+  if (
+    isRestricted &&
+    !allowlist.addresses.includes(email) &&
+    !allowlist.domains.includes(getDomain(email))
+  ) {
+    return "not-allowed";
+  }
+
+  return null;
+};
+
+// Edits needed to turn a into b: typed, missing, extra and swapped
+// characters count as one (optimal string alignment distance)
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0,
+    ),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+// Splits a domain into its name and TLD, e.g. "mail.acme.com" → "mail.acme", "com"
+const splitDomain = (domain: string): { name: string; tld: string } => {
+  const dot = domain.lastIndexOf(".");
+  return { name: domain.slice(0, dot), tld: domain.slice(dot + 1) };
+};
+
+// Edits needed to turn a domain into a candidate, or null when the candidate
+// isn't a plausible correction
+// The name and the TLD are compared separately: a known TLD is never
+// "corrected" ("hotmail.de" isn't a typo of "hotmail.es"), an unknown one
+// only by a single edit ("gmail.con" → "gmail.com")
+const getCorrectionDistance = (
+  domain: string,
+  candidate: string,
+): number | null => {
+  const typed = splitDomain(domain);
+  const target = splitDomain(candidate);
+  const {
+    MAX_NAME_DISTANCE,
+    SHORT_NAME_LENGTH,
+    MIN_NAME_LENGTH,
+    MAX_TLD_DISTANCE,
+  } = EMAIL_SUGGESTION_CONFIG;
+
+  const tldDistance = editDistance(typed.tld, target.tld);
+  if (
+    tldDistance > 0 &&
+    (KNOWN_EMAIL_TLDS.includes(typed.tld) || tldDistance > MAX_TLD_DISTANCE)
+  ) {
+    return null;
+  }
+
+  const nameDistance = editDistance(typed.name, target.name);
+  const maxNameDistance =
+    typed.name.length < MIN_NAME_LENGTH
+      ? 0
+      : typed.name.length > SHORT_NAME_LENGTH
+        ? MAX_NAME_DISTANCE
+        : 1;
+
+  return nameDistance <= maxNameDistance ? nameDistance + tldDistance : null;
+};
+
+// Suggests the address the candidate probably meant when its domain looks
+// like a mistyped common provider or allowed domain ("gmial.com" → "gmail.com")
+// Returns the corrected address, or null when there's nothing to suggest
+export const suggestEmail = (
+  input: string,
+  allowlist: EmailAllowlist = getEmailAllowlist(),
+): string | null => {
+  const email = input.trim();
+  if (!isValidEmail(email)) {
+    return null;
+  }
+
+  const domain = getDomain(email).toLowerCase();
+  const candidates = [
+    ...allowlist.domains,
+    ...allowlist.addresses.map(getDomain),
+    ...COMMON_EMAIL_DOMAINS,
+  ];
+
+  if (candidates.includes(domain)) {
+    return null;
+  }
+
+  let suggestion: { domain: string; distance: number } | null = null;
+
+  for (const candidate of candidates) {
+    const distance = getCorrectionDistance(domain, candidate);
+    if (distance !== null && distance < (suggestion?.distance ?? Infinity)) {
+      suggestion = { domain: candidate, distance };
+    }
+  }
+
+  return suggestion
+    ? `${email.slice(0, email.lastIndexOf("@"))}@${suggestion.domain}`
+    : null;
+};
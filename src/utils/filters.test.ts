@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { Job, JobFilters } from "@/models";
+import { DEFAULT_JOB_FILTERS } from "@/constants/job.constants";
+import {
+  applyJobFilters,
+  hasActiveJobFilters,
+  parseJobFilters,
+  serializeJobFilters,
+} from "./filters";
+
+const JOBS: Job[] = [
+  {
+    id: "1",
+    title: "UX Diseñador",
+    tags: [],
+    remotePolicy: "remote",
+    postedAt: "2024-05-01T00:00:00.000Z",
+  },
+  {
+    id: "2",
+    title: "Backend Developer",
+    tags: [],
+    description: "Node and PostgreSQL",
+    remotePolicy: "onsite",
+    seniority: "senior",
+    postedAt: "2024-06-01T00:00:00.000Z",
+  },
+  { id: "3", title: "Frontend Developer", tags: [], remotePolicy: "remote" },
+];
+
+const filtersOf = (filters: Partial<JobFilters>): JobFilters => ({
+  ...DEFAULT_JOB_FILTERS,
+  ...filters,
+});
+
+const idsOf = (jobs: Job[]): string[] => jobs.map((job) => job.id);
+
+describe("parseJobFilters", () => {
+  it("reads the filters from the query string", () => {
+    expect(
+      parseJobFilters(
+        new URLSearchParams("q=react&remote=hybrid&saved=1&sort=title"),
+      ),
+    ).toEqual({
+      query: "react",
+      remotePolicy: "hybrid",
+      seniority: undefined,
+      employmentType: undefined,
+      savedOnly: true,
+      sort: "title",
+    });
+  });
+
+  it("ignores unknown values", () => {
+    expect(
+      parseJobFilters(new URLSearchParams("remote=moon&sort=random&saved=yes")),
+    ).toEqual(filtersOf({ remotePolicy: undefined }));
+  });
+});
+
+describe("serializeJobFilters", () => {
+  it("leaves the defaults out and keeps other parameters", () => {
+    const params = serializeJobFilters(
+      filtersOf({ query: "react ", remotePolicy: "remote" }),
+      new URLSearchParams("page=jobs&sort=title"),
+    );
+
+    expect(params.toString()).toBe("page=jobs&q=react+&remote=remote");
+  });
+
+  it("round-trips through parseJobFilters", () => {
+    const filters = filtersOf({
+      query: "node",
+      seniority: "senior",
+      employmentType: "contract",
+      savedOnly: true,
+      sort: "title",
+    });
+
+    expect(parseJobFilters(serializeJobFilters(filters))).toEqual(filters);
+  });
+});
+
+describe("hasActiveJobFilters", () => {
+  it("ignores blank queries and the sort", () => {
+    expect(hasActiveJobFilters(filtersOf({ query: "  ", sort: "title" }))).toBe(
+      false,
+    );
+    expect(hasActiveJobFilters(filtersOf({ savedOnly: true }))).toBe(true);
+  });
+});
+
+describe("applyJobFilters", () => {
+  it("matches every term, ignoring case and accents", () => {
+    expect(
+      idsOf(applyJobFilters(JOBS, filtersOf({ query: "disenador" }), "en")),
+    ).toEqual(["1"]);
+    expect(
+      idsOf(
+        applyJobFilters(JOBS, filtersOf({ query: "developer NODE" }), "en"),
+      ),
+    ).toEqual(["2"]);
+  });
+
+  it("applies the filters and saved jobs", () => {
+    expect(
+      idsOf(applyJobFilters(JOBS, filtersOf({ remotePolicy: "remote" }), "en")),
+    ).toEqual(["1", "3"]);
+    expect(
+      idsOf(
+        applyJobFilters(
+          JOBS,
+          filtersOf({ savedOnly: true }),
+          "en",
+          new Set(["3"]),
+        ),
+      ),
+    ).toEqual(["3"]);
+  });
+
+  it("sorts without mutating the list", () => {
+    const jobs = [...JOBS];
+
+    expect(idsOf(applyJobFilters(jobs, filtersOf({}), "en"))).toEqual([
+      "2",
+      "1",
+      "3",
+    ]);
+    expect(
+      idsOf(applyJobFilters(jobs, filtersOf({ sort: "title" }), "en")),
+    ).toEqual(["2", "3", "1"]);
+    expect(jobs).toEqual(JOBS);
+  });
+});
@@ -0,0 +1,129 @@
+import type { Job, JobFilters } from "@/models";
+import {
+  DEFAULT_JOB_FILTERS,
+  EMPLOYMENT_TYPES,
+  JOB_FILTER_PARAMS,
+  JOB_SORT_ORDERS,
+  REMOTE_POLICIES,
+  SENIORITY_LEVELS,
+} from "@/constants/job.constants";
+
+// Lowercases and strips accents so "Diseño" matches "diseno"
+const normalizeText = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase();
+
+// Reads a parameter, accepting only one of the given values
+const getOption = <T extends string>(
+  params: URLSearchParams,
+  key: string,
+  options: readonly T[],
+): T | undefined => options.find((option) => option === params.get(key));
+
+// Reads the jobs list filters from a query string
+// Unknown or invalid values are ignored, so an edited or outdated
+// bookmark still opens the list
+export const parseJobFilters = (params: URLSearchParams): JobFilters => ({
+  query: params.get(JOB_FILTER_PARAMS.QUERY) ?? DEFAULT_JOB_FILTERS.query,
+  remotePolicy: getOption(
+    params,
+    JOB_FILTER_PARAMS.REMOTE_POLICY,
+    REMOTE_POLICIES,
+  ),
+  seniority: getOption(params, JOB_FILTER_PARAMS.SENIORITY, SENIORITY_LEVELS),
+  employmentType: getOption(
+    params,
+    JOB_FILTER_PARAMS.EMPLOYMENT_TYPE,
+    EMPLOYMENT_TYPES,
+  ),
+  savedOnly: params.get(JOB_FILTER_PARAMS.SAVED) === "1",
+  sort:
+    getOption(params, JOB_FILTER_PARAMS.SORT, JOB_SORT_ORDERS) ??
+    DEFAULT_JOB_FILTERS.sort,
+});
+
+// Writes the jobs list filters into a query string
+// Default values are left out to keep shared URLs short
+// Parameters that don't belong to the filters are preserved
+// The query is kept as typed (the search box reads it back from the URL, so
+// trimming it would swallow the space between words); it's trimmed where used
+export const serializeJobFilters = (
+  filters: JobFilters,
+  base: URLSearchParams = new URLSearchParams(),
+): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  const entries: [string, string | undefined][] = [
+    [JOB_FILTER_PARAMS.QUERY, filters.query || undefined],
+    [JOB_FILTER_PARAMS.REMOTE_POLICY, filters.remotePolicy],
+    [JOB_FILTER_PARAMS.SENIORITY, filters.seniority],
+    [JOB_FILTER_PARAMS.EMPLOYMENT_TYPE, filters.employmentType],
+    [JOB_FILTER_PARAMS.SAVED, filters.savedOnly ? "1" : undefined],
+    [
+      JOB_FILTER_PARAMS.SORT,
+      filters.sort === DEFAULT_JOB_FILTERS.sort ? undefined : filters.sort,
+    ],
+  ];
+
+  entries.forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  });
+
+  return params;
+};
+
+// Whether any search term or filter narrows the list (the sort doesn't)
+export const hasActiveJobFilters = (filters: JobFilters): boolean =>
+  !!filters.query.trim() ||
+  !!filters.remotePolicy ||
+  !!filters.seniority ||
+  !!filters.employmentType ||
+  filters.savedOnly;
+
+// Whether the job contains every search term in its title or description
+const matchesQuery = (job: Job, query: string): boolean => {
+  const terms = normalizeText(query).split(/\s+/).filter(Boolean);
+  const text = normalizeText(`${job.title} ${job.description ?? ""}`);
+  return terms.every((term) => text.includes(term));
+};
+
+// Sorts by posted date (newest first, undated jobs last) or by title
+const compareJobs =
+  (sort: JobFilters["sort"], locale: string) =>
+  (a: Job, b: Job): number => {
+    if (sort === "title") {
+      return a.title.localeCompare(b.title, locale, { sensitivity: "base" });
+    }
+
+    return (b.postedAt ?? "").localeCompare(a.postedAt ?? "");
+  };
+
+// Whether the job matches the search and filters
+// savedJobIds are the jobs the candidate saved, used by the savedOnly filter
+export const matchesJobFilters = (
+  job: Job,
+  filters: JobFilters,
+  savedJobIds: ReadonlySet<string> = new Set(),
+): boolean =>
+  (!filters.savedOnly || savedJobIds.has(job.id)) &&
+  matchesQuery(job, filters.query) &&
+  (!filters.remotePolicy || job.remotePolicy === filters.remotePolicy) &&
+  (!filters.seniority || job.seniority === filters.seniority) &&
+  (!filters.employmentType || job.employmentType === filters.employmentType);
+
+// Returns the jobs matching the search and filters, in the requested order
+// The original list is never mutated
+export const applyJobFilters = (
+  jobs: Job[],
+  filters: JobFilters,
+  locale: string,
+  savedJobIds: ReadonlySet<string> = new Set(),
+): Job[] =>
+  jobs
+    .filter((job) => matchesJobFilters(job, filters, savedJobIds))
+    .sort(compareJobs(filters.sort, locale));
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { emailAddress, repositoryUrl, required } from "./form-rules";
+
+const VALUES = {};
+
+describe("required", () => {
+  it("rejects blank values with the given message", () => {
+    const rule = required("enterRepoUrl");
+
+    expect(rule("  ", VALUES)).toBe("enterRepoUrl");
+    expect(rule("jane", VALUES)).toBeNull();
+  });
+});
+
+describe("repositoryUrl", () => {
+  it("translates the reason a URL is rejected", () => {
+    const rule = repositoryUrl();
+
+    expect(rule("https://github.com/owner/repo", VALUES)).toBeNull();
+    expect(rule("https://github.com/owner", VALUES)).toBe(
+      "repoUrlMissingRepository",
+    );
+  });
+});
+
+describe("emailAddress", () => {
+  it("translates the reason an email is rejected", () => {
+    const rule = emailAddress();
+
+    expect(rule("jane@acme.com", VALUES)).toBeNull();
+    expect(rule("jane@", VALUES)).toBe("invalidEmailFormat");
+  });
+});
@@ -0,0 +1,32 @@
+import type { FieldRule, FormValues } from "@/models";
+import type { TranslationKey } from "@/constants/translations.constants";
+import {
+  EMAIL_ERROR_TRANSLATION_KEYS,
+  REPOSITORY_URL_ERROR_TRANSLATION_KEYS,
+} from "@/constants/error.constants";
+import { validateEmail } from "./email";
+import { parseRepositoryUrl } from "./validators";
+
+// Common rules of the forms handled by useForm
+
+// Rejects blank values with the given message
+export const required =
+  (error: TranslationKey): FieldRule<FormValues> =>
+  (value) =>
+    value.trim() ? null : error;
+
+// Accepts the repository URLs parseRepositoryUrl accepts, rejecting the
+// others with the translated reason (empty, wrong host, invalid owner...)
+export const repositoryUrl = (): FieldRule<FormValues> => (value) => {
+  const parsed = parseRepositoryUrl(value);
+  return parsed.ok
+    ? null
+    : REPOSITORY_URL_ERROR_TRANSLATION_KEYS[parsed.reason];
+};
+
+// Accepts well-formed emails of the allowlist (any address without one),
+// rejecting the others with the translated reason
+export const emailAddress = (): FieldRule<FormValues> => (value) => {
+  const reason = validateEmail(value);
+  return reason ? EMAIL_ERROR_TRANSLATION_KEYS[reason] : null;
+};
@@ -7,3 +7,55 @@ export const getInitials = (name: string) => {
 
   return slicedInitials;
 };
+
+// Generates a random RFC 4122 version 4 UUID
+// Falls back to getRandomValues where randomUUID is unavailable (non-secure contexts)
+export const generateUuid = (): string => {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"));
+  return [
+    hex.slice(0, 4).join(""),
+    hex.slice(4, 6).join(""),
+    hex.slice(6, 8).join(""),
+    hex.slice(8, 10).join(""),
+    hex.slice(10, 16).join(""),
+  ].join("-");
+};
+
+// Formats an amount of money in the given currency for the locale
+// Amounts are rounded to whole units; an unknown currency code falls back
+// to "<code> <amount>" instead of throwing
+export const formatCurrency = (
+  amount: number,
+  currency: string,
+  locale: string,
+): string => {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${new Intl.NumberFormat(locale).format(amount)}`;
+  }
+};
+
+// Formats an ISO date as a medium-length date for the locale (e.g. "Jan 20, 2025")
+export const formatDate = (isoDate: string, locale: string): string =>
+  new Intl.DateTimeFormat(locale, { dateStyle: "medium" }).format(
+    new Date(isoDate),
+  );
+
+// Formats an ISO date as a short time for the locale (e.g. "3:42 PM")
+export const formatTime = (isoDate: string, locale: string): string =>
+  new Intl.DateTimeFormat(locale, { timeStyle: "short" }).format(
+    new Date(isoDate),
+  );
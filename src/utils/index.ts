@@ -1,2 +1,10 @@
 export * from "./helpers";
 export * from "./validators";
+export * from "./retry";
+export * from "./location";
+export * from "./filters";
+export * from "./router";
+export * from "./concurrency";
+export * from "./repository-hosts";
+export * from "./email";
+export * from "./form-rules";
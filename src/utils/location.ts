@@ -0,0 +1,88 @@
+// Minimal store over the location of the hash router
+// Routes live in the URL hash ("#/jobs/42?q=react"), so deep links work on
+// static hosting like gh-pages without server rewrites
+// Components read it through useSyncExternalStore and write it without
+// reloading the page; history changes (back/forward) notify them too
+
+type LocationListener = () => void;
+
+export interface NavigateOptions {
+  replace?: boolean; // Replaces the current history entry instead of adding one
+}
+
+const listeners = new Set<LocationListener>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// Route part of the URL: the hash without its leading "#"
+const getHashRoute = (): string => window.location.hash.replace(/^#/, "");
+
+// Gets the current route with its query string, e.g. "/jobs?q=react"
+// Used as the snapshot of the router and as the target of login redirects
+export const getLocationHref = (): string => getHashRoute() || "/";
+
+// Gets the path of the current route, "/" when the URL has no route
+export const getLocationPath = (): string =>
+  getHashRoute().split("?")[0] || "/";
+
+// Gets the query string of the current route, including the leading "?"
+// when not empty
+export const getLocationSearch = (): string => {
+  const route = getHashRoute();
+  const index = route.indexOf("?");
+  return index === -1 || index === route.length - 1 ? "" : route.slice(index);
+};
+
+// Goes to a route ("/jobs/42", "/login?redirect=...")
+// A new route starts at the top of the page
+export const navigateTo = (
+  to: string,
+  { replace = false }: NavigateOptions = {},
+): void => {
+  if (to === getLocationHref()) {
+    return;
+  }
+
+  const { pathname, search } = window.location;
+  const url = `${pathname}${search}#${to}`;
+
+  if (replace) {
+    window.history.replaceState(window.history.state, "", url);
+  } else {
+    window.history.pushState(null, "", url);
+    window.scrollTo(0, 0);
+  }
+  notify();
+};
+
+// Replaces the query string of the current route
+// Replacing (instead of pushing) keeps typing in a search box from
+// flooding the browser history
+export const replaceSearchParams = (params: URLSearchParams): void => {
+  const query = params.toString();
+  navigateTo(`${getLocationPath()}${query ? `?${query}` : ""}`, {
+    replace: true,
+  });
+};
+
+// Registers a listener called whenever the route or its query string changes
+// Links to "#/..." change the hash directly, which is caught by hashchange
+export const subscribeToLocation = (
+  listener: LocationListener,
+): (() => void) => {
+  listeners.add(listener);
+
+  if (listeners.size === 1) {
+    window.addEventListener("popstate", notify);
+    window.addEventListener("hashchange", notify);
+  }
+
+  return () => {
+    listeners.delete(listener);
+
+    if (listeners.size === 0) {
+      window.removeEventListener("popstate", notify);
+      window.removeEventListener("hashchange", notify);
+    }
+  };
+};
@@ -0,0 +1,74 @@
+import { envConfig } from "@/config/env.config";
+import {
+  REPOSITORY_PROVIDERS,
+  REPOSITORY_PROVIDER_RULES,
+} from "@/constants/repository.constants";
+import type { RepositoryHost, RepositoryProvider } from "@/models";
+
+// Hostname of a self-hosted instance, e.g. "git.example.com"
+const HOSTNAME =
+  /^(?=.{1,253}$)[a-z\d](?:[a-z\d-]*[a-z\d])?(?:\.[a-z\d](?:[a-z\d-]*[a-z\d])?)+$/;
+
+const isProvider = (value: string): value is RepositoryProvider =>
+  REPOSITORY_PROVIDERS.some((provider) => provider === value);
+
+// Parses the repositories.hosts setting: a comma-separated list of
+// "provider" (its public service, e.g. "gitlab" for gitlab.com) or
+// "provider:hostname" for self-hosted instances ("gitea:git.example.com")
+// Entries that can't be parsed are returned in invalid, duplicates are dropped
+export const parseRepositoryHosts = (
+  setting: string,
+): { hosts: RepositoryHost[]; invalid: string[] } => {
+  const hosts: RepositoryHost[] = [];
+  const invalid: string[] = [];
+
+  setting
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [provider, customHostname, ...extra] = entry
+        .toLowerCase()
+        .split(":");
+      const hostname = (
+        customHostname ??
+        (isProvider(provider)
+          ? REPOSITORY_PROVIDER_RULES[provider].publicHost
+          : undefined) ??
+        ""
+      ).replace(/^www\./, "");
+
+      if (
+        !isProvider(provider) ||
+        extra.length > 0 ||
+        !HOSTNAME.test(hostname)
+      ) {
+        invalid.push(entry);
+      } else if (!hosts.some((host) => host.hostname === hostname)) {
+        hosts.push({ provider, hostname });
+      }
+    });
+
+  return { hosts, invalid };
+};
+
+// Hosts candidates can submit repositories from, in the configured order
+// The configuration is validated at startup, so invalid entries never get here
+export const getAllowedRepositoryHosts = (): RepositoryHost[] =>
+  parseRepositoryHosts(envConfig.repositories.hosts).hosts;
+
+// Name of a host shown to candidates, e.g. "GitHub" or "Gitea (git.example.com)"
+// Self-hosted instances are named by their hostname so they can be told apart
+export const getRepositoryHostLabel = ({
+  provider,
+  hostname,
+}: RepositoryHost): string => {
+  const { label, publicHost } = REPOSITORY_PROVIDER_RULES[provider];
+  return hostname === publicHost ? label : `${label} (${hostname})`;
+};
+
+// Example URL shown in the repository fields, on the first allowed host
+export const getRepositoryUrlPlaceholder = (
+  hosts: RepositoryHost[] = getAllowedRepositoryHosts(),
+): string =>
+  `https://${hosts[0]?.hostname ?? REPOSITORY_PROVIDER_RULES.github.publicHost}/username/repository`;
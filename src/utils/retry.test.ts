@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getBackoffDelay, withRetry } from "./retry";
+import type { RetryOptions } from "./retry";
+
+const OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  shouldRetry: () => true,
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("getBackoffDelay", () => {
+  it("doubles the delay on each attempt up to the maximum", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(getBackoffDelay(1, 100, 1000)).toBe(100);
+    expect(getBackoffDelay(3, 100, 1000)).toBe(400);
+    expect(getBackoffDelay(10, 100, 1000)).toBe(1000);
+  });
+
+  it("adds a jitter of ±20%", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getBackoffDelay(1, 100, 1000)).toBe(80);
+
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect(getBackoffDelay(1, 100, 1000)).toBe(120);
+  });
+});
+
+describe("withRetry", () => {
+  it("returns the result of the first successful attempt", async () => {
+    vi.useFakeTimers();
+    const operation = vi
+      .fn<(attempt: number) => Promise<string>>()
+      .mockRejectedValueOnce(new Error("network"))
+      .mockResolvedValueOnce("done");
+    const onRetry = vi.fn();
+
+    const result = withRetry(operation, { ...OPTIONS, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("done");
+    expect(operation.mock.calls).toEqual([[1], [2]]);
+    expect(onRetry).toHaveBeenCalledWith(
+      2,
+      expect.any(Number),
+      expect.any(Error),
+    );
+  });
+
+  it("throws the last error once the attempts run out", async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn(async (attempt: number) => {
+      throw new Error(`attempt ${attempt}`);
+    });
+
+    const result = withRetry(operation, OPTIONS);
+    const assertion = expect(result).rejects.toThrow("attempt 3");
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry errors rejected by shouldRetry", async () => {
+    const operation = vi.fn(async () => {
+      throw new Error("invalid");
+    });
+
+    await expect(
+      withRetry(operation, { ...OPTIONS, shouldRetry: () => false }),
+    ).rejects.toThrow("invalid");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting as soon as the signal is aborted", async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const operation = vi.fn(async () => {
+      throw new Error("network");
+    });
+
+    const result = withRetry(operation, {
+      ...OPTIONS,
+      signal: controller.signal,
+    });
+    const assertion = expect(result).rejects.toBe("cancelled");
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort("cancelled");
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
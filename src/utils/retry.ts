@@ -0,0 +1,67 @@
+export interface RetryOptions {
+  maxAttempts: number; // Total attempts, including the first one
+  baseDelayMs: number; // Delay before the first retry
+  maxDelayMs: number; // Upper bound for the exponential delay
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  signal?: AbortSignal; // Stops retrying as soon as it's aborted
+}
+
+// Waits for the given time, rejecting with the abort reason if the signal
+// is aborted first
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+
+// Exponential backoff with ±20% jitter so retrying clients don't synchronize
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+): number => {
+  const exponential = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  const jitter = 0.8 + Math.random() * 0.4;
+  return Math.round(exponential * jitter);
+};
+
+// Runs the operation and retries it with exponential backoff
+// while shouldRetry accepts the error and attempts remain
+// The operation receives the current attempt number (starting at 1)
+// Aborting the signal cancels the pending backoff and skips further attempts
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs, shouldRetry, onRetry, signal } =
+    options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(attempt + 1, delayMs, error);
+      await wait(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_ROUTE,
+  REDIRECT_PARAM,
+  ROUTES,
+} from "@/constants/routes.constants";
+
+// Matches a path against a route pattern like "/jobs/:id"
+// Returns the decoded parameters, or null when the path doesn't match
+export const matchRoute = (
+  pattern: string,
+  path: string,
+): Record<string, string> | null => {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = path.split("/").filter(Boolean);
+
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  const matches = patternSegments.every((segment, index) => {
+    if (segment.startsWith(":")) {
+      try {
+        params[segment.slice(1)] = decodeURIComponent(pathSegments[index]);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    return segment === pathSegments[index];
+  });
+
+  return matches ? params : null;
+};
+
+// Builds the login route that returns to the given route afterwards
+// The default route is left out to keep the URL short
+export const buildLoginPath = (returnTo: string): string => {
+  if (returnTo === DEFAULT_ROUTE || returnTo.startsWith(ROUTES.LOGIN)) {
+    return ROUTES.LOGIN;
+  }
+
+  const params = new URLSearchParams({ [REDIRECT_PARAM]: returnTo });
+  return `${ROUTES.LOGIN}?${params}`;
+};
+
+// Reads the route to return to after login from the login query string
+// Only routes of this app are accepted, anything else opens the default route
+export const getRedirectPath = (search: string): string => {
+  const redirect = new URLSearchParams(search).get(REDIRECT_PARAM);
+
+  if (
+    !redirect ||
+    !redirect.startsWith("/") ||
+    redirect.startsWith("//") ||
+    redirect.startsWith(ROUTES.LOGIN)
+  ) {
+    return DEFAULT_ROUTE;
+  }
+
+  return redirect;
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { RepositoryHost } from "@/models";
+import { detectRepositoryHost, parseRepositoryUrl } from "./validators";
+
+const HOSTS: RepositoryHost[] = [
+  { provider: "github", hostname: "github.com" },
+  { provider: "gitlab", hostname: "gitlab.com" },
+  { provider: "bitbucket", hostname: "bitbucket.org" },
+];
+
+const canonicalUrlOf = (input: string): string | undefined => {
+  const parsed = parseRepositoryUrl(input, HOSTS);
+  return parsed.ok ? parsed.canonicalUrl : undefined;
+};
+
+const reasonOf = (input: string): string | undefined => {
+  const parsed = parseRepositoryUrl(input, HOSTS);
+  return parsed.ok ? undefined : parsed.reason;
+};
+
+describe("parseRepositoryUrl", () => {
+  it("accepts the forms candidates paste", () => {
+    const expected = "https://github.com/owner/repo";
+
+    expect(canonicalUrlOf("https://github.com/owner/repo")).toBe(expected);
+    expect(canonicalUrlOf("  http://www.github.com/owner/repo/ ")).toBe(
+      expected,
+    );
+    expect(canonicalUrlOf("github.com/owner/repo.git")).toBe(expected);
+    expect(canonicalUrlOf("git@github.com:owner/repo.git")).toBe(expected);
+    expect(canonicalUrlOf("ssh://git@github.com/owner/repo")).toBe(expected);
+    expect(canonicalUrlOf("https://github.com/owner/repo?tab=readme#top")).toBe(
+      expected,
+    );
+  });
+
+  it("drops the pages of the repository but keeps its branch", () => {
+    expect(canonicalUrlOf("https://github.com/owner/repo/issues/12")).toBe(
+      "https://github.com/owner/repo",
+    );
+    expect(
+      canonicalUrlOf("https://github.com/owner/repo/tree/feature/login"),
+    ).toBe("https://github.com/owner/repo/tree/feature/login");
+  });
+
+  it("reads the repository and branch", () => {
+    expect(
+      parseRepositoryUrl("https://github.com/Owner/Repo/tree/main", HOSTS),
+    ).toEqual({
+      ok: true,
+      repository: {
+        provider: "github",
+        host: "github.com",
+        owner: "Owner",
+        repo: "Repo",
+        branch: "main",
+      },
+      canonicalUrl: "https://github.com/Owner/Repo/tree/main",
+    });
+  });
+
+  it("accepts nested owners on GitLab", () => {
+    expect(
+      canonicalUrlOf("https://gitlab.com/group/subgroup/repo/-/tree/dev"),
+    ).toBe("https://gitlab.com/group/subgroup/repo/-/tree/dev");
+    expect(canonicalUrlOf("https://gitlab.com/group/subgroup/repo")).toBe(
+      "https://gitlab.com/group/subgroup/repo",
+    );
+  });
+
+  it("rejects invalid input with its reason", () => {
+    expect(reasonOf("   ")).toBe("empty");
+    expect(reasonOf("not a url")).toBe("invalid-url");
+    expect(reasonOf("ftp://github.com/owner/repo")).toBe(
+      "unsupported-protocol",
+    );
+    expect(reasonOf("https://example.com/owner/repo")).toBe("unsupported-host");
+    expect(reasonOf("https://github.com/owner")).toBe("missing-repository");
+    expect(reasonOf("https://github.com/settings/profile")).toBe(
+      "not-a-repository",
+    );
+    expect(reasonOf("https://github.com/-owner/repo")).toBe("invalid-owner");
+    expect(reasonOf("https://github.com/owner/re po")).toBe(
+      "invalid-repository",
+    );
+  });
+
+  it("only accepts the given hosts", () => {
+    expect(
+      parseRepositoryUrl("https://gitlab.com/owner/repo", [HOSTS[0]]),
+    ).toEqual({ ok: false, reason: "unsupported-host" });
+  });
+});
+
+describe("detectRepositoryHost", () => {
+  it("detects the host of an incomplete URL", () => {
+    expect(detectRepositoryHost("gitlab.com/", HOSTS)).toEqual(HOSTS[1]);
+    expect(detectRepositoryHost("git@bitbucket.org:", HOSTS)).toEqual(HOSTS[2]);
+  });
+
+  it("returns null for unknown hosts", () => {
+    expect(detectRepositoryHost("example.com/owner", HOSTS)).toBeNull();
+    expect(detectRepositoryHost("github", HOSTS)).toBeNull();
+  });
+});
@@ -1,16 +1,176 @@
-import { errors } from "@/constants/error.constants";
-
-const GITHUB = /^https:\/\/github\.com\/[\w-]+\/[\w-]+\/?$/;
-
-// Validates that the URL is a valid GitHub repository
-// Expected format: https://github.com/username/repository
-export const isValidGitHubUrl = (
-  url: string,
-): { valid: boolean; message: string } => {
-  const message = errors.INVALID_GITHUB_URL;
-  const githubUrlPattern = GITHUB;
-  const valid = githubUrlPattern.test(url);
-  return { valid, message };
+import { REPOSITORY_PROVIDER_RULES } from "@/constants/repository.constants";
+import type {
+  ParsedRepositoryUrl,
+  RepositoryHost,
+  RepositoryRef,
+  RepositoryUrlErrorReason,
+} from "@/models";
+import { getAllowedRepositoryHosts } from "./repository-hosts";
+
+// SSH address, e.g. "git@github.com:owner/repo.git"
+const SCP_SSH = /^[\w.-]+@([^:/]+):(.*)$/;
+
+// Any scheme, e.g. "https:" or "ssh:"
+const SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+const fail = (reason: RepositoryUrlErrorReason): ParsedRepositoryUrl => ({
+  ok: false,
+  reason,
+});
+
+// Splits the input into its host and path, whatever its form
+// Accepts https/http URLs, URLs without a scheme ("github.com/owner/repo"),
+// "ssh://" URLs and SSH addresses ("git@github.com:owner/repo")
+const splitHostAndPath = (
+  input: string,
+): { host: string; path: string } | RepositoryUrlErrorReason => {
+  const ssh = SCP_SSH.exec(input);
+  if (ssh && !SCHEME.test(input)) {
+    return { host: ssh[1], path: ssh[2] };
+  }
+
+  const withScheme = SCHEME.test(input) ? input : `https://${input}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    return "invalid-url";
+  }
+
+  if (!["https:", "http:", "ssh:"].includes(url.protocol)) {
+    return "unsupported-protocol";
+  }
+
+  if (!url.hostname.includes(".")) {
+    return "invalid-url";
+  }
+
+  return { host: url.hostname, path: url.pathname };
+};
+
+// Finds the allowed host a host name belongs to, ignoring case and "www."
+const findHost = (
+  host: string,
+  hosts: RepositoryHost[],
+): RepositoryHost | undefined => {
+  const hostname = host.toLowerCase().replace(/^www\./, "");
+  return hosts.find((allowed) => allowed.hostname === hostname);
+};
+
+// Detects which allowed host a URL points to, even while it's incomplete
+// (e.g. "gitlab.com/"), so the form can show it as the candidate types
+export const detectRepositoryHost = (
+  input: string,
+  hosts: RepositoryHost[] = getAllowedRepositoryHosts(),
+): RepositoryHost | null => {
+  const parts = splitHostAndPath(input.trim());
+  return typeof parts === "string"
+    ? null
+    : (findHost(parts.host, hosts) ?? null);
+};
+
+// Parses a repository URL the way candidates paste them
+// Besides "https://github.com/owner/repo" it accepts "www." hosts,
+// a missing scheme, http, a ".git" suffix, SSH addresses, trailing slashes,
+// query strings and deeper paths: branch pages ("/tree/<branch>" on GitHub,
+// "/-/tree/<branch>" on GitLab...) keep the branch and other pages of the
+// repository (issues, files...) are dropped
+// Only the allowed hosts are accepted, each with the URL rules of its provider
+// Returns the repository and its canonical https URL, or why it was rejected
+export const parseRepositoryUrl = (
+  input: string,
+  hosts: RepositoryHost[] = getAllowedRepositoryHosts(),
+): ParsedRepositoryUrl => {
+  const trimmed = input.trim();
+
+  if (!trimmed) {
+    return fail("empty");
+  }
+
+  const parts = splitHostAndPath(trimmed);
+  if (typeof parts === "string") {
+    return fail(parts);
+  }
+
+  const host = findHost(parts.host, hosts);
+  if (!host) {
+    return fail("unsupported-host");
+  }
+
+  const rules = REPOSITORY_PROVIDER_RULES[host.provider];
+  const segments = parts.path
+    .split(/[?#]/)[0]
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+
+  // Nested owners end where the pages of the repository start ("/-/"),
+  // otherwise the path is "owner/repo/..."
+  const pagesStart = rules.nestedOwners ? segments.indexOf("-") : 2;
+  const repositoryPath =
+    pagesStart < 0 ? segments : segments.slice(0, pagesStart);
+  const pages = pagesStart < 0 ? [] : segments.slice(pagesStart);
+  const ownerPath = repositoryPath.slice(0, -1);
+  const name = repositoryPath.at(-1);
+
+  if (segments[0] && rules.reservedOwners.includes(segments[0].toLowerCase())) {
+    return fail("not-a-repository");
+  }
+
+  if (ownerPath.length === 0 || !name) {
+    return fail("missing-repository");
+  }
+
+  if (!ownerPath.every((segment) => rules.owner.test(segment))) {
+    return fail("invalid-owner");
+  }
+
+  const repo = name.replace(/\.git$/i, "");
+  if (!rules.repo.test(repo) || repo === "." || repo === "..") {
+    return fail("invalid-repository");
+  }
+
+  const isBranchPage =
+    pages.length > rules.branchPath.length &&
+    rules.branchPath.every((segment, index) => pages[index] === segment);
+  const repository: RepositoryRef = {
+    provider: host.provider,
+    host: host.hostname,
+    owner: ownerPath.join("/"),
+    repo,
+    branch: isBranchPage
+      ? pages.slice(rules.branchPath.length).join("/")
+      : undefined,
+  };
+
+  return {
+    ok: true,
+    repository,
+    canonicalUrl: buildRepositoryUrl(repository),
+  };
+};
+
+// Builds the canonical https URL of a repository (and branch)
+export const buildRepositoryUrl = ({
+  provider,
+  host,
+  owner,
+  repo,
+  branch,
+}: RepositoryRef): string => {
+  const branchPath = REPOSITORY_PROVIDER_RULES[provider].branchPath.join("/");
+
+  return `https://${host}/${owner}/${repo}${
+    branch
+      ? `/${branchPath}/${branch.split("/").map(encodeURIComponent).join("/")}`
+      : ""
+  }`;
 };
 
 export const isError = (err: unknown): err is Error => err instanceof Error;